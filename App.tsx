@@ -1,105 +1,735 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import type { UploadedImage } from './types';
-import { MAX_IMAGES } from './constants';
-import { generateScene, enhanceImage } from './services/geminiService';
-import ImageSlot from './components/ImageSlot';
-import ImageEditorModal from './components/ImageEditorModal';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { UploadedImage, GeneratedImage, ResultVersion, VersionInput, WorkspaceSnapshot, AnnotationMode, Candidate, CandidateRun, GenerationOptions, PromptTemplate, IngestSettings, RequestSettings, LegendEntry, OutputSettings as OutputSettingsValue, VersionRecipe } from './types';
+import {
+  MIN_IMAGES,
+  DEFAULT_IMAGES,
+  MAX_IMAGES,
+  PROJECT_BUNDLE_EXTENSION,
+  ANNOTATION_MODE_STORAGE_KEY,
+  MIN_CANDIDATES,
+  MAX_CANDIDATES,
+  MAX_JOB_CONCURRENCY,
+  REQUEST_TIMEOUT_OPTIONS_MS,
+  MAX_REQUEST_RETRIES,
+  ENHANCEMENT_SHORTCUT_COUNT,
+} from './constants';
+import { generateScene, enhanceImage, refineImage, inpaintImage, providers, getActiveProvider, setActiveProvider, getRequestSettings, setRequestSettings } from './services/imageService';
+import { CancelledError, ImageServiceError } from './services/errors';
+import { createProjectBundle, parseProjectBundle } from './services/projectBundle';
+import { getLineage, getRefinementContext, useVersionTree, type NewVersion } from './hooks/useVersionTree';
+import { useJobQueue } from './hooks/useJobQueue';
+import { useWorkspacePersistence } from './hooks/useWorkspacePersistence';
+import { useTemplateLibrary } from './hooks/useTemplateLibrary';
+import { getActiveActions, useShortcutBindings, useShortcutListener, useShortcuts, type ShortcutAction } from './hooks/useShortcuts';
+import { createTemplatePack, parseTemplatePack } from './services/templateLibrary';
+import ImageSlot, { type SlotDetails } from './components/ImageSlot';
+import ImageEditorModal, { type EditorUpdate, type InpaintRequest } from './components/ImageEditorModal';
 import HelpModal from './components/HelpModal';
-import Spinner from './components/Spinner';
-import { SparklesIcon, DownloadIcon, SwitchIcon, QuestionMarkIcon } from './components/icons';
+import VersionTree from './components/VersionTree';
+import VersionCompareModal from './components/VersionCompareModal';
+import SessionMenu from './components/SessionMenu';
+import UploadSettings from './components/UploadSettings';
+import OutputSettings from './components/OutputSettings';
+import DownloadSettings from './components/DownloadSettings';
+import RecipeBanner, { type RecipeOffer } from './components/RecipeBanner';
+import FinishingModal from './components/FinishingModal';
+import RefinementPanel from './components/RefinementPanel';
+import JobTray from './components/JobTray';
+import UsagePanel from './components/UsagePanel';
+import CandidateGrid from './components/CandidateGrid';
+import ComparisonViewer, { type ComparisonSource } from './components/ComparisonViewer';
+import TemplateLibraryModal from './components/TemplateLibraryModal';
+import TemplateFillModal from './components/TemplateFillModal';
+import CommandPalette from './components/CommandPalette';
+import { SparklesIcon, DownloadIcon, SwitchIcon, QuestionMarkIcon, UploadIcon, BrushIcon, AdjustmentsIcon } from './components/icons';
+import { downloadBlob, readFileAsText } from './utils/fileUtils';
+import { extractVariables } from './utils/templates';
+import { ingestImage, loadIngestSettings, saveIngestSettings } from './utils/ingest';
+import { formatCombo, isEditableTarget } from './utils/shortcuts';
+import { readImageTransfer } from './utils/imageTransfer';
+import { loadLegend, saveLegend } from './utils/legend';
+import { compositeMaskedRegion } from './utils/masking';
+import { renderAnnotationLayers } from './utils/annotations';
+import { encodeImage, formatFilename, loadOutputSettings, saveOutputSettings } from './utils/output';
+import { buildProvenance, embedProvenance, hashInputs, readProvenance } from './services/provenance';
+import { formatCost, getBudgetStatus, setUsageSession } from './services/usageTracker';
+import { useUsage } from './hooks/useUsage';
+
+// Takes all slots, so each input keeps the number the prompt knows it by.
+const toVersionInputs = (images: UploadedImage[]): VersionInput[] =>
+  images.flatMap((img, i) => (img.annotatedBase64 || img.base64) && img.mimeType ? [{
+    slotId: img.id,
+    number: i + 1,
+    base64: img.annotatedBase64 || img.base64!,
+    mimeType: img.mimeType,
+    role: img.role,
+    caption: img.caption,
+    annotations: img.annotations,
+    annotationHints: img.annotationHints,
+  }] : []);
+
+// Slot ids stay the same for as long as the slot exists, so stored inputs keep pointing at it.
+// Users and models know the slots by position instead, as "Image N".
+const slotNumber = (images: UploadedImage[], id: number) => images.findIndex(img => img.id === id) + 1;
+
+// Ids of removed slots are not handed out again while versions still refer to them.
+const nextSlotId = (images: UploadedImage[], versions: ResultVersion[]) =>
+  Math.max(0, ...images.map(img => img.id), ...versions.flatMap(v => v.inputs.map(input => input.slotId))) + 1;
+
+const recordRecipe = (options?: GenerationOptions): VersionRecipe => {
+  const provider = getActiveProvider();
+  return { providerId: provider.id, model: provider.model, options };
+};
+
+const createEmptySlot = (id: number): UploadedImage => ({
+  id,
+  file: null,
+  base64: null,
+  annotatedBase64: null,
+  annotationOverlayBase64: null,
+  annotations: [],
+  annotationHints: [],
+  mimeType: null,
+  role: 'unspecified',
+  caption: '',
+  ingest: null,
+});
+
+const createEmptySlots = (): UploadedImage[] =>
+  Array.from({ length: DEFAULT_IMAGES }, (_, i) => createEmptySlot(i + 1));
+
+// Workspaces saved by older versions lack the newer fields.
+const normalizeImage = (image: UploadedImage): UploadedImage => ({
+  ...createEmptySlot(image.id),
+  ...image,
+  annotations: image.annotations ?? [],
+  annotationHints: image.annotationHints ?? [],
+  annotationOverlayBase64: image.annotationOverlayBase64 ?? null,
+  role: image.role ?? 'unspecified',
+  caption: image.caption ?? '',
+});
+
+// Inputs saved by older versions only had the image; their slot id was also their number.
+const normalizeVersion = (version: ResultVersion): ResultVersion => ({
+  ...version,
+  inputs: version.inputs.map(input => ({
+    ...input,
+    number: input.number ?? input.slotId,
+    role: input.role ?? 'unspecified',
+    caption: input.caption ?? '',
+    annotations: input.annotations ?? [],
+    annotationHints: input.annotationHints ?? [],
+  })),
+});
+
+const createEmptyWorkspace = (): WorkspaceSnapshot => ({
+  images: createEmptySlots(),
+  prompt: '',
+  versions: [],
+  currentVersionId: null,
+});
+
+interface ErrorNotice {
+  message: string;
+  guidance?: string;
+}
 
 const App: React.FC = () => {
-  const [images, setImages] = useState<UploadedImage[]>(
-    Array.from({ length: MAX_IMAGES }, (_, i) => ({
-      id: i + 1,
-      file: null,
-      base64: null,
-      annotatedBase64: null,
-      mimeType: null,
-    }))
-  );
+  const [images, setImages] = useState<UploadedImage[]>(createEmptySlots);
+  // Jobs that finish later update the slots as they are by then.
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
   const [prompt, setPrompt] = useState<string>('');
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [loadingMessage, setLoadingMessage] = useState<string>('');
-  const [error, setError] = useState<string | null>(null);
-  const [resultImage, setResultImage] = useState<{ base64: string; mimeType: string } | null>(null);
+  const [error, setError] = useState<ErrorNotice | null>(null);
+
+  const showError = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof CancelledError) return;
+    console.error(err);
+    setError(err instanceof ImageServiceError
+      ? { message: err.message, guidance: err.guidance }
+      : { message: err instanceof Error ? err.message : fallback });
+  }, []);
+
+  const { versions, currentVersion, currentVersionId, addVersion, selectVersion, resetVersions } = useVersionTree();
+  const resultImage = currentVersion?.image ?? null;
+  const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
+  const [candidateCount, setCandidateCount] = useState<number>(MIN_CANDIDATES);
+  const [candidateRun, setCandidateRun] = useState<CandidateRun | null>(null);
+  const [showCandidates, setShowCandidates] = useState<boolean>(false);
+  // What the current candidate run was generated from, so failed tiles can be retried as-is.
+  const candidateSources = useRef<{ images: UploadedImage[]; prompt: string; options: GenerationOptions } | null>(null);
   const [showResult, setShowResult] = useState<boolean>(true);
   
   const [editingImageId, setEditingImageId] = useState<number | null>(null);
   const imageToEdit = useMemo(() => images.find(img => img.id === editingImageId) || null, [images, editingImageId]);
   const [showHelpModal, setShowHelpModal] = useState<boolean>(false);
+  const { templates, addTemplate, updateTemplate, removeTemplate, importTemplates, resetToDefaults } = useTemplateLibrary();
+  const [showTemplateLibrary, setShowTemplateLibrary] = useState<boolean>(false);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+  const sceneTemplates = templates.filter(t => t.kind === 'scene');
+  const enhancementTemplates = templates.filter(t => t.kind === 'enhancement');
+  const [providerId, setProviderId] = useState<string>(() => getActiveProvider().id);
+  const [requestSettings, setRequestSettingsState] = useState<RequestSettings>(getRequestSettings);
+  const { jobs, enqueue, cancelJob, retryJob, dismissJob, clearFinished } = useJobQueue(requestSettings.concurrency);
+  // Switching backends or sessions would send, or file, the results of these elsewhere.
+  const hasActiveJobs = jobs.some(j => j.status === 'queued' || j.status === 'running');
+
+  // A finished job only takes over the view if it still shows what the job started from.
+  const viewedVersionId = useRef(currentVersionId);
+  viewedVersionId.current = currentVersionId;
+  const addJobResult = useCallback((version: NewVersion, startedFrom: string | null): string => {
+    const follow = viewedVersionId.current === startedFrom;
+    const created = addVersion(version, follow);
+    if (follow) setShowResult(true);
+    return created.id;
+  }, [addVersion]);
+  const [annotationMode, setAnnotationMode] = useState<AnnotationMode>(
+    () => (localStorage.getItem(ANNOTATION_MODE_STORAGE_KEY) as AnnotationMode | null) ?? 'flattened'
+  );
+
+  const [ingestSettings, setIngestSettings] = useState<IngestSettings>(loadIngestSettings);
+  const [legend, setLegend] = useState<LegendEntry[]>(loadLegend);
+  const [outputSettings, setOutputSettings] = useState<OutputSettingsValue>(loadOutputSettings);
+  const [recipeOffer, setRecipeOffer] = useState<RecipeOffer | null>(null);
+  const [showUsage, setShowUsage] = useState<boolean>(false);
+  const usage = useUsage();
+  const budgetStatus = useMemo(() => getBudgetStatus(usage), [usage]);
+  const { aspectRatio, longEdge, fit } = outputSettings;
+  const outputShape = useMemo(() => ({ aspectRatio, longEdge, fit }), [aspectRatio, longEdge, fit]);
+
+  const handleAnnotationModeChange = (mode: AnnotationMode) => {
+    setAnnotationMode(mode);
+    localStorage.setItem(ANNOTATION_MODE_STORAGE_KEY, mode);
+  };
+
+  const workspace = useMemo<WorkspaceSnapshot>(
+    () => ({ images, prompt, versions, currentVersionId }),
+    [images, prompt, versions, currentVersionId]
+  );
+
+  const restoreWorkspace = useCallback((snapshot: WorkspaceSnapshot) => {
+    setImages(snapshot.images.map(normalizeImage));
+    setPrompt(snapshot.prompt);
+    resetVersions(snapshot.versions.map(normalizeVersion), snapshot.currentVersionId);
+    setEditingImageId(null);
+    setCompareIds(null);
+    setCandidateRun(null);
+    setShowCandidates(false);
+    setError(null);
+    // Their versions and slots belong to the workspace being replaced. Nothing can be queued
+    // or running here, since switching sessions and importing wait for the queue to drain.
+    clearFinished();
+  }, [resetVersions, clearFinished]);
+
+  const {
+    sessions,
+    activeSessionId,
+    isRestoring,
+    switchSession,
+    createSession,
+    renameSession,
+    deleteSession,
+  } = useWorkspacePersistence(workspace, restoreWorkspace, createEmptyWorkspace);
+
+  useEffect(() => {
+    setUsageSession(activeSessionId);
+  }, [activeSessionId]);
 
-  const handleImageChange = (id: number, file: File) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = (reader.result as string).split(',')[1];
+  const handleSessionAction = (action: () => Promise<void>) => {
+    action().catch(err => {
+      showError(err, 'Could not update saved sessions.');
+    });
+  };
+
+  const handleProviderChange = (id: string) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  const handleRequestSettingsChange = (settings: RequestSettings) => {
+    setRequestSettings(settings);
+    setRequestSettingsState(settings);
+  };
+
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportProject = () => {
+    const provider = getActiveProvider();
+    const bundle = createProjectBundle(workspace, { providerId: provider.id, model: provider.model });
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadBlob(bundle, `scene-blender-${stamp}${PROJECT_BUNDLE_EXTENSION}`);
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const { workspace: imported, settings } = parseProjectBundle(await readFileAsText(file));
+      restoreWorkspace(imported);
+      if (providers.some(p => p.id === settings.providerId && p.isConfigured())) {
+        handleProviderChange(settings.providerId);
+      }
+    } catch (err) {
+      showError(err, 'Could not import the project.');
+    }
+  };
+
+  const handleImageChange = async (id: number, file: File) => {
+    try {
+      const { file: processed, image, report } = await ingestImage(file, ingestSettings);
       setImages(prevImages =>
         prevImages.map(img =>
-          img.id === id ? { id, file, base64: base64String, annotatedBase64: null, mimeType: file.type } : img
+          img.id === id
+            ? { ...createEmptySlot(id), role: img.role, caption: img.caption, file: processed, base64: image.base64, mimeType: image.mimeType, ingest: report }
+            : img
         )
       );
-    };
-    reader.readAsDataURL(file);
+    } catch (err) {
+      showError(err, 'Could not read the image.');
+    }
+  };
+
+  // Results downloaded from here carry their recipe; adding one again offers to bring it back.
+  const offerRecipe = async (files: File[]) => {
+    for (const file of files) {
+      const provenance = await readProvenance(file);
+      if (!provenance) continue;
+      let matchingSources = 0;
+      try {
+        const loaded = new Set((await hashInputs(toVersionInputs(images))).map(source => source.sha256));
+        matchingSources = provenance.sources.filter(source => loaded.has(source.sha256)).length;
+      } catch (err) {
+        // Hashing needs crypto.subtle, which only secure origins have; the recipe is still worth offering.
+        console.error(err);
+      }
+      setRecipeOffer({ fileName: file.name, provenance, matchingSources });
+      return;
+    }
+  };
+
+  // Fills `targetId` first (replacing its image), then the other empty slots in order, adding
+  // slots up to MAX_IMAGES. Whatever still doesn't fit, or isn't an image, is reported.
+  const handleFilesAdded = (targetId: number | null, files: File[], rejected: string[] = []) => {
+    const emptyIds = images.filter(img => !img.base64 && img.id !== targetId).map(img => img.id);
+    const existingIds = targetId !== null ? [targetId, ...emptyIds] : emptyIds;
+    const addable = MAX_IMAGES - images.length;
+    const firstNewId = nextSlotId(images, versions);
+    const slotIds = [...existingIds, ...Array.from({ length: addable }, (_, i) => firstNewId + i)];
+    const placed = files.slice(0, slotIds.length);
+
+    const newSlots = placed.length - existingIds.length;
+    if (newSlots > 0) {
+      setImages(prevImages => [
+        ...prevImages,
+        ...Array.from({ length: newSlots }, (_, i) => createEmptySlot(firstNewId + i)),
+      ]);
+    }
+    placed.forEach((file, i) => handleImageChange(slotIds[i], file));
+    offerRecipe(placed);
+
+    const problems: string[] = [];
+    const guidance: string[] = [];
+    if (rejected.length > 0) {
+      problems.push(rejected.length === 1 ? `"${rejected[0]}" is not an image.` : `${rejected.length} files are not images: ${rejected.join(', ')}.`);
+      guidance.push('Use PNG, JPEG, WebP, HEIC or another image format.');
+    }
+    if (placed.length < files.length) {
+      problems.push(`Only ${placed.length} of ${files.length} images were added; all ${MAX_IMAGES} slots are in use.`);
+      guidance.push('Remove images you no longer need, then add the rest again.');
+    }
+    if (problems.length > 0) {
+      setError({ message: problems.join(' '), guidance: guidance.join(' ') });
+    }
+  };
+
+  const handleTransfer = (targetId: number | null, data: DataTransfer, source: 'drop' | 'paste') => {
+    readImageTransfer(data)
+      .then(({ files, rejected }) => {
+        if (files.length > 0 || rejected.length > 0) {
+          handleFilesAdded(targetId, files, rejected);
+        } else if (source === 'drop') {
+          setError({
+            message: 'Nothing in that drop could be used as an image.',
+            guidance: 'Drop image files, or drag an image straight from another browser tab.',
+          });
+        }
+      })
+      .catch(err => showError(err, 'Could not add the image.'));
+  };
+
+  const handleLegendChange = (next: LegendEntry[]) => {
+    setLegend(next);
+    saveLegend(next);
+  };
+
+  const handleOutputSettingsChange = (settings: OutputSettingsValue) => {
+    setOutputSettings(settings);
+    saveOutputSettings(settings);
+  };
+
+  const handleRestoreRecipe = ({ provenance }: RecipeOffer) => {
+    setPrompt(provenance.prompt);
+    if (provenance.options) {
+      handleAnnotationModeChange(provenance.options.annotationMode);
+      handleLegendChange(provenance.options.legend);
+      handleOutputSettingsChange({ ...outputSettings, ...provenance.options.output });
+    }
+    setRecipeOffer(null);
+  };
+
+  const handleIngestSettingsChange = (settings: IngestSettings) => {
+    setIngestSettings(settings);
+    saveIngestSettings(settings);
   };
   
   const handleImageRemove = (id: number) => {
     setImages(prevImages =>
       prevImages.map(img =>
-        img.id === id
-          ? { id: img.id, file: null, base64: null, annotatedBase64: null, mimeType: null }
-          : img
+        img.id === id ? { ...createEmptySlot(img.id), role: img.role, caption: img.caption } : img
       )
     );
   };
 
-  const handleSaveAnnotation = (id: number, annotatedBase64: string) => {
+  const handleDetailsChange = (id: number, details: SlotDetails) => {
+    setImages(prevImages =>
+      prevImages.map(img => img.id === id ? { ...img, ...details } : img)
+    );
+  };
+
+  const handleAddSlot = () => {
+    setImages(prevImages =>
+      prevImages.length >= MAX_IMAGES ? prevImages : [...prevImages, createEmptySlot(nextSlotId(prevImages, versions))]
+    );
+  };
+
+  // The "Image N" labels of the remaining slots follow their new positions.
+  const handleRemoveSlot = (id: number) => {
+    setImages(prevImages =>
+      prevImages.length <= MIN_IMAGES ? prevImages : prevImages.filter(img => img.id !== id)
+    );
+  };
+
+  const handleSaveAnnotation = (id: number, { edits, ...update }: EditorUpdate) => {
     setImages(prevImages =>
       prevImages.map(img =>
-        img.id === id ? { ...img, annotatedBase64 } : img
+        img.id === id ? { ...img, ...update } : img
       )
     );
     setEditingImageId(null);
   };
 
-  const uploadedImages = useMemo(() => images.filter(img => img.file), [images]);
+  const [isEditingResult, setIsEditingResult] = useState<boolean>(false);
+  const [isFinishingResult, setIsFinishingResult] = useState<boolean>(false);
+
+  // Inpainting a source slot updates that slot when the job is done, keeping its current annotations.
+  const handleInpaintSlot = (id: number, { base, mask, maskImage, feather, instruction }: InpaintRequest) => {
+    const position = slotNumber(images, id);
+    enqueue('inpaint', `Inpaint Image ${position}: ${instruction}`, async signal => {
+      const generated = await inpaintImage(base, maskImage, instruction, { signal });
+      const composited = await compositeMaskedRegion(base, generated, mask, feather);
+      const slot = imagesRef.current.find(img => img.id === id);
+      if (!slot) throw new Error(`Image ${position} was removed before inpainting finished.`);
+      const layers = await renderAnnotationLayers(composited.base64, composited.mimeType, slot.annotations);
+      setImages(prevImages =>
+        prevImages.map(img => img.id === id ? { ...img, ...layers, ...composited } : img)
+      );
+      return null;
+    });
+  };
+
+  const handleInpaintResult = ({ base, mask, maskImage, feather, instruction }: InpaintRequest) => {
+    if (!currentVersion) return;
+    const parentId = currentVersion.id;
+    enqueue('inpaint', `Inpaint: ${instruction}`, async signal => {
+      const generated = await inpaintImage(base, maskImage, instruction, { signal });
+      return addJobResult({
+        parentId,
+        kind: 'edit',
+        prompt: instruction,
+        inputs: [],
+        image: await compositeMaskedRegion(base, generated, mask, feather),
+        recipe: recordRecipe(),
+      }, parentId);
+    });
+  };
+
+  const handleApplyFinish = (image: GeneratedImage, description: string) => {
+    setIsFinishingResult(false);
+    if (!currentVersion) return;
+    addVersion({
+      parentId: currentVersion.id,
+      kind: 'finish',
+      prompt: description,
+      inputs: [],
+      image,
+    });
+    setShowResult(true);
+  };
+
+  // Numbered by position for the models, so the prompt and the user mean the same "Image N".
+  const uploadedImages = useMemo(
+    () => images.map((img, i) => ({ ...img, id: i + 1 })).filter(img => img.file),
+    [images]
+  );
+  const uploadedInputs = useMemo(() => toVersionInputs(images), [images]);
+
+  const compareVersions = useMemo(() => {
+    if (!compareIds) return null;
+    const first = versions.find(v => v.id === compareIds[0]);
+    const second = versions.find(v => v.id === compareIds[1]);
+    return first && second ? [first, second] as [ResultVersion, ResultVersion] : null;
+  }, [compareIds, versions]);
+
+  // The current result can be compared against the inputs it was made from or any other version.
+  const comparisonSources = useMemo((): ComparisonSource[] => {
+    if (!currentVersion) return [];
+    const inputs = currentVersion.inputs.map(input => {
+      const number = slotNumber(images, input.slotId);
+      return {
+        id: `input-${input.slotId}`,
+        label: number ? `Image ${number}` : 'Removed image',
+        image: { base64: input.base64, mimeType: input.mimeType },
+      };
+    });
+    const others = versions
+      .map((v, i) => ({ id: v.id, label: `v${i + 1}`, image: v.image }))
+      .filter(v => v.id !== currentVersion.id);
+    return [...inputs, ...others];
+  }, [currentVersion, versions, images]);
+
+  const isRunningCandidates = useMemo(
+    () => Boolean(candidateRun?.candidates.some(c => c.status === 'pending')),
+    [candidateRun]
+  );
 
-  const canGenerate = useMemo(() => uploadedImages.length > 0 && prompt.trim().length > 0 && !isLoading, [uploadedImages, prompt, isLoading]);
+  const updateCandidate = useCallback((id: string, changes: Partial<Candidate>) => {
+    setCandidateRun(prev => prev && {
+      ...prev,
+      candidates: prev.candidates.map(c => c.id === id ? { ...c, ...changes } : c),
+    });
+  }, []);
+
+  const generateCandidates = useCallback((candidates: Candidate[]) => {
+    const sources = candidateSources.current;
+    if (!sources) return;
+    candidates.forEach(candidate => enqueue(
+      'candidate',
+      `Candidate (seed ${candidate.seed}): ${sources.prompt}`,
+      async signal => {
+        updateCandidate(candidate.id, { status: 'pending', error: null });
+        try {
+          const image = await generateScene(sources.images, sources.prompt, { ...sources.options, seed: candidate.seed }, { signal });
+          updateCandidate(candidate.id, { status: 'done', image, error: null });
+          return null;
+        } catch (err) {
+          updateCandidate(candidate.id, { status: 'error', error: err instanceof Error ? err.message : 'Generation failed.' });
+          throw err;
+        }
+      },
+      () => updateCandidate(candidate.id, { status: 'error', error: 'Cancelled before it started.' })
+    ));
+  }, [enqueue, updateCandidate]);
+
+  const canGenerate = useMemo(
+    // One candidate run at a time, since the grid shows a single run; single scenes just queue up.
+    () => uploadedImages.length > 0 && prompt.trim().length > 0 && !(candidateCount > 1 && isRunningCandidates),
+    [uploadedImages, prompt, candidateCount, isRunningCandidates]
+  );
+
+  const handleGenerateCandidates = useCallback(() => {
+    const candidates: Candidate[] = Array.from({ length: candidateCount }, () => ({
+      id: crypto.randomUUID(),
+      seed: Math.floor(Math.random() * 2 ** 31),
+      status: 'pending',
+      image: null,
+      error: null,
+      starred: false,
+    }));
+    candidateSources.current = { images: uploadedImages, prompt, options: { annotationMode, legend, output: outputShape } };
+    setCandidateRun({ prompt, inputs: uploadedInputs, candidates });
+    setShowCandidates(true);
+    setError(null);
+    generateCandidates(candidates);
+  }, [candidateCount, uploadedImages, uploadedInputs, prompt, annotationMode, legend, outputShape, generateCandidates]);
+
+  const handleRetryCandidate = (id: string) => {
+    const candidate = candidateRun?.candidates.find(c => c.id === id);
+    if (!candidate) return;
+    updateCandidate(id, { status: 'pending', error: null });
+    generateCandidates([candidate]);
+  };
+
+  const handlePromoteCandidate = (id: string) => {
+    const candidate = candidateRun?.candidates.find(c => c.id === id);
+    if (!candidateRun || !candidate?.image) return;
+    addVersion({
+      parentId: null,
+      kind: 'generate',
+      prompt: candidateRun.prompt,
+      inputs: candidateRun.inputs,
+      image: candidate.image,
+      recipe: recordRecipe(candidateSources.current ? { ...candidateSources.current.options, seed: candidate.seed } : undefined),
+    });
+    setShowCandidates(false);
+    setShowResult(true);
+  };
 
-  const handleGenerate = useCallback(async () => {
+  const handleGenerate = useCallback(() => {
     if (!canGenerate) return;
-    setIsLoading(true);
-    setLoadingMessage('Blending your scene... this may take a moment.');
+    if (candidateCount > 1) {
+      handleGenerateCandidates();
+      return;
+    }
     setError(null);
-    setResultImage(null);
+    // The job keeps these inputs, so later edits in the workspace don't change it or its retries.
+    const options: GenerationOptions = { annotationMode, legend, output: outputShape };
+    const startedFrom = currentVersionId;
+    const inputs = uploadedInputs;
+    enqueue('generate', `Generate: ${prompt}`, async signal => {
+      const result = await generateScene(uploadedImages, prompt, options, { signal });
+      return addJobResult({
+        parentId: null,
+        kind: 'generate',
+        prompt,
+        inputs,
+        image: result,
+        recipe: recordRecipe(options),
+      }, startedFrom);
+    });
+  }, [canGenerate, candidateCount, handleGenerateCandidates, uploadedImages, uploadedInputs, prompt, annotationMode, legend, outputShape, currentVersionId, enqueue, addJobResult]);
+
+  const downloadName = currentVersion
+    ? formatFilename(outputSettings.filenameTemplate, currentVersion, versions.indexOf(currentVersion) + 1, outputSettings.format)
+    : '';
 
+  const handleDownload = useCallback(async () => {
+    if (!currentVersion) return;
     try {
-      const result = await generateScene(uploadedImages, prompt);
-      setResultImage(result);
-      setShowResult(true);
+      const encoded = await encodeImage(currentVersion.image, outputSettings.format, outputSettings.quality);
+      let blob = encoded;
+      try {
+        blob = await embedProvenance(encoded, await buildProvenance(versions, currentVersion));
+      } catch (err) {
+        console.error(err);
+        setError({
+          message: 'The image was downloaded without its recipe.',
+          guidance: err instanceof Error ? err.message : undefined,
+        });
+      }
+      // The extension follows what the browser actually wrote, in case it fell back to PNG.
+      downloadBlob(blob, formatFilename(outputSettings.filenameTemplate, currentVersion, versions.indexOf(currentVersion) + 1, blob.type));
     } catch (err) {
-      console.error(err);
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
-    } finally {
-      setIsLoading(false);
+      showError(err, 'Could not prepare the download.');
     }
-  }, [canGenerate, uploadedImages, prompt]);
+  }, [currentVersion, versions, outputSettings, showError]);
+
+  const [refineDraft, setRefineDraft] = useState<string>('');
+  const refinementThread = useMemo(
+    () => (currentVersion ? getLineage(versions, currentVersion.id) : []),
+    [versions, currentVersion]
+  );
 
-  const handleEnhance = useCallback(async (enhancement: string) => {
-      if (!resultImage || isLoading) return;
-      setIsLoading(true);
-      setLoadingMessage(`Applying ${enhancement.toLowerCase()}...`);
+  const handleRefine = useCallback(() => {
+    const instruction = refineDraft.trim();
+    if (!currentVersion || !instruction) return;
+    setError(null);
+    const parentId = currentVersion.id;
+    const context = getRefinementContext(versions, parentId);
+    enqueue('refine', `Refine: ${instruction}`, async signal => {
+      const result = await refineImage(context, instruction, { signal });
+      return addJobResult({
+        parentId,
+        kind: 'refine',
+        prompt: instruction,
+        inputs: [],
+        image: result,
+        recipe: recordRecipe(),
+      }, parentId);
+    });
+    // A failed instruction can be retried from the job tray.
+    setRefineDraft('');
+  }, [refineDraft, currentVersion, versions, enqueue, addJobResult]);
+
+  const handleEnhance = useCallback((name: string, enhancementPrompt: string) => {
+      if (!currentVersion) return;
       setError(null);
-      try {
-          const newResult = await enhanceImage(resultImage, `Make the image more ${enhancement}`);
-          setResultImage(newResult);
-          setShowResult(true);
-      } catch (err) {
-          console.error(err);
-          setError(err instanceof Error ? err.message : 'An unknown error occurred during enhancement.');
-      } finally {
-          setIsLoading(false);
-      }
-  }, [resultImage, isLoading]);
+      const parent = currentVersion;
+      enqueue('enhance', `Enhance: ${name}`, async signal => {
+          const newResult = await enhanceImage(parent.image, enhancementPrompt, { signal });
+          // Enhancing an older version starts a new branch from it.
+          return addJobResult({
+            parentId: parent.id,
+            kind: 'enhance',
+            prompt: enhancementPrompt,
+            inputs: [],
+            image: newResult,
+            recipe: recordRecipe(),
+          }, parent.id);
+      });
+  }, [currentVersion, enqueue, addJobResult]);
+
+  const applyTemplate = (template: PromptTemplate, text: string) => {
+    setFillingTemplate(null);
+    if (template.kind === 'scene') {
+      setPrompt(text);
+    } else {
+      handleEnhance(template.name, text);
+    }
+  };
+
+  const handleUseTemplate = (template: PromptTemplate) => {
+    if (extractVariables(template.template).length > 0) {
+      setFillingTemplate(template);
+    } else {
+      applyTemplate(template, template.template);
+    }
+  };
+
+  const handleImportTemplates = async (file: File) => {
+    try {
+      importTemplates(parseTemplatePack(await readFileAsText(file)));
+    } catch (err) {
+      showError(err, 'Could not import the preset pack.');
+    }
+  };
+
+  const { bindings, setBinding, resetBindings } = useShortcutBindings();
+  useShortcutListener(bindings);
+  const [paletteActions, setPaletteActions] = useState<ShortcutAction[] | null>(null);
+
+  useShortcuts([
+    { id: 'command-palette', label: 'Command palette', group: 'General', run: () => setPaletteActions(getActiveActions()), allowInInputs: true, global: true },
+    { id: 'show-help', label: 'How to use', group: 'General', run: () => setShowHelpModal(true) },
+    { id: 'manage-templates', label: 'Manage templates and presets', group: 'General', run: () => setShowTemplateLibrary(true) },
+    { id: 'show-usage', label: 'Usage and cost', group: 'General', run: () => setShowUsage(true) },
+    { id: 'export-project', label: 'Export project', group: 'Project', run: handleExportProject },
+    { id: 'import-project', label: 'Import project', group: 'Project', run: () => projectInputRef.current?.click(), enabled: !hasActiveJobs },
+    { id: 'generate', label: candidateCount > 1 ? `Generate ${candidateCount} candidates` : 'Generate scene', group: 'Create', run: handleGenerate, enabled: canGenerate, allowInInputs: true },
+    { id: 'toggle-compare', label: 'Toggle result / comparison', group: 'Result', run: () => setShowResult(prev => !prev), enabled: Boolean(resultImage) && comparisonSources.length > 0 },
+    { id: 'download-result', label: 'Download result', group: 'Result', run: handleDownload, enabled: Boolean(resultImage) },
+    { id: 'inpaint-result', label: 'Inpaint result', group: 'Result', run: () => setIsEditingResult(true), enabled: Boolean(currentVersion) },
+    { id: 'finish-result', label: 'Finishing tools', group: 'Result', run: () => setIsFinishingResult(true), enabled: Boolean(currentVersion) },
+    ...enhancementTemplates.slice(0, ENHANCEMENT_SHORTCUT_COUNT).map((t, i): ShortcutAction => ({
+      id: `enhance-${i + 1}`,
+      label: `Enhance: ${t.name}`,
+      group: 'Result',
+      run: () => handleUseTemplate(t),
+      enabled: Boolean(currentVersion),
+    })),
+  ]);
+
+  // Pasting anywhere outside a text field fills the first empty slot, while the slots are on screen.
+  const isInputSectionVisible = !(showCandidates && candidateRun) && !resultImage;
+  const isModalOpen = Boolean(imageToEdit || isEditingResult || isFinishingResult || compareVersions || showHelpModal || showUsage || showTemplateLibrary || fillingTemplate || paletteActions);
+  const handleWindowPaste = useRef<(e: ClipboardEvent) => void>(() => {});
+  handleWindowPaste.current = (e: ClipboardEvent) => {
+    if (!e.clipboardData || isEditableTarget(e.target) || !isInputSectionVisible || isModalOpen) return;
+    e.preventDefault();
+    handleTransfer(null, e.clipboardData, 'paste');
+  };
+  useEffect(() => {
+    const listener = (e: ClipboardEvent) => handleWindowPaste.current(e);
+    window.addEventListener('paste', listener);
+    return () => window.removeEventListener('paste', listener);
+  }, []);
 
   const renderHeader = () => (
     <div className="text-center mb-8">
@@ -112,7 +742,7 @@ const App: React.FC = () => {
       <p className="mt-4 text-lg text-gray-400 max-w-3xl mx-auto">
         Upload your images, draw annotations to guide the AI, describe the final scene, and create a stunning composition.
       </p>
-      <div className="mt-4">
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-4">
         <button 
           onClick={() => setShowHelpModal(true)}
           className="inline-flex items-center gap-2 px-4 py-2 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition-colors"
@@ -120,28 +750,169 @@ const App: React.FC = () => {
           <QuestionMarkIcon />
           How to use
         </button>
+        <button
+          onClick={() => setPaletteActions(getActiveActions())}
+          className="px-4 py-2 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition-colors"
+          title="Search every action and change its keyboard shortcut"
+        >
+          Shortcuts
+          {bindings['command-palette']?.[0] && (
+            <kbd className="ml-2 px-1.5 py-0.5 text-xs bg-gray-900 border border-gray-600 rounded">{formatCombo(bindings['command-palette'][0])}</kbd>
+          )}
+        </button>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-400">
+          Backend
+          <select
+            value={providerId}
+            onChange={e => handleProviderChange(e.target.value)}
+            disabled={hasActiveJobs}
+            className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {providers.map(p => (
+              <option key={p.id} value={p.id} disabled={!p.isConfigured()}>
+                {p.label}{p.isConfigured() ? '' : ' (not configured)'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-400" title="How long to wait for each attempt, and how often to retry busy or rate-limited requests">
+          Timeout
+          <select
+            value={requestSettings.timeoutMs}
+            onChange={e => handleRequestSettingsChange({ ...requestSettings, timeoutMs: Number(e.target.value) })}
+            className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {REQUEST_TIMEOUT_OPTIONS_MS.map(ms => <option key={ms} value={ms}>{ms / 1000}s</option>)}
+          </select>
+          Retries
+          <select
+            value={requestSettings.maxRetries}
+            onChange={e => handleRequestSettingsChange({ ...requestSettings, maxRetries: Number(e.target.value) })}
+            className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {Array.from({ length: MAX_REQUEST_RETRIES + 1 }, (_, n) => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-400" title="How many requests run at the same time; the rest wait in the job queue">
+          At once
+          <select
+            value={requestSettings.concurrency}
+            onChange={e => handleRequestSettingsChange({ ...requestSettings, concurrency: Number(e.target.value) })}
+            className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {Array.from({ length: MAX_JOB_CONCURRENCY }, (_, i) => <option key={i + 1} value={i + 1}>{i + 1}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={() => setShowUsage(true)}
+          className={`px-3 py-1 text-sm rounded-md hover:bg-gray-600 ${budgetStatus.exceeded ? 'bg-red-900 text-red-200' : 'bg-gray-700 text-gray-200'}`}
+          title="Requests, tokens and estimated cost; prices and the daily budget"
+        >
+          Usage · {formatCost(budgetStatus.spent)} today
+        </button>
+        <SessionMenu
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          disabled={hasActiveJobs || isRestoring}
+          onSwitch={(id) => handleSessionAction(() => switchSession(id))}
+          onCreate={() => handleSessionAction(() => createSession())}
+          onRename={(id, name) => handleSessionAction(() => renameSession(id, name))}
+          onDelete={(id) => handleSessionAction(() => deleteSession(id))}
+        />
+        <div className="inline-flex items-center gap-2">
+          <button
+            onClick={handleExportProject}
+            className="inline-flex items-center gap-2 px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Download sources, annotations, prompt and results as a project file"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Export project
+          </button>
+          <button
+            onClick={() => projectInputRef.current?.click()}
+            disabled={hasActiveJobs}
+            className="inline-flex items-center gap-2 px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Open a project file"
+          >
+            <UploadIcon className="w-4 h-4" />
+            Import project
+          </button>
+          <input
+            type="file"
+            ref={projectInputRef}
+            accept={`${PROJECT_BUNDLE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleImportProject(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
       </div>
     </div>
   );
   
   const renderInputSection = () => (
     <>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+      <div
+        className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6"
+        onDragOver={e => e.preventDefault()}
+        onDrop={e => { e.preventDefault(); handleTransfer(null, e.dataTransfer, 'drop'); }}
+      >
         {images.map(image => (
           <ImageSlot 
-            key={image.id} 
-            image={image} 
-            onImageChange={handleImageChange}
+            key={image.id}
+            image={image}
+            label={`Image ${slotNumber(images, image.id)}`}
+            onFilesAdded={(id, files) => handleFilesAdded(id, files)}
+            onTransfer={(id, data) => handleTransfer(id, data, 'drop')}
             onEdit={(id) => setEditingImageId(id)}
             onImageRemove={handleImageRemove}
+            canRemoveSlot={images.length > MIN_IMAGES}
+            onDetailsChange={handleDetailsChange}
+            onSlotRemove={handleRemoveSlot}
           />
         ))}
+        {images.length < MAX_IMAGES && (
+          <button
+            onClick={handleAddSlot}
+            className="w-full aspect-square rounded-lg border-2 border-dashed border-gray-700 text-gray-500 hover:border-blue-500 hover:text-blue-400 transition-all duration-300 flex flex-col items-center justify-center"
+          >
+            <span className="text-4xl leading-none">+</span>
+            <span className="mt-2 text-sm">Add image slot ({images.length}/{MAX_IMAGES})</span>
+          </button>
+        )}
       </div>
+      <UploadSettings settings={ingestSettings} onChange={handleIngestSettingsChange} />
       <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
         <div>
-          <label htmlFor="prompt" className="block text-sm font-medium text-gray-300 mb-2">
-            Describe your desired scene
-          </label>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <label htmlFor="prompt" className="block text-sm font-medium text-gray-300">
+              Describe your desired scene
+            </label>
+            <div className="flex items-center gap-2">
+              <select
+                value=""
+                onChange={e => {
+                  const template = sceneTemplates.find(t => t.id === e.target.value);
+                  if (template) handleUseTemplate(template);
+                }}
+                disabled={sceneTemplates.length === 0}
+                className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+                aria-label="Start from a template"
+              >
+                <option value="">Start from a template…</option>
+                {sceneTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <button
+                onClick={() => setShowTemplateLibrary(true)}
+                className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600"
+              >
+                Manage templates
+              </button>
+            </div>
+          </div>
           <textarea
             id="prompt"
             value={prompt}
@@ -151,14 +922,38 @@ const App: React.FC = () => {
             className="w-full bg-gray-700 border-gray-600 rounded-md text-gray-200 focus:ring-blue-500 focus:border-blue-500 transition"
           />
         </div>
-        <div className="mt-6 text-right">
+        <div className="mt-6 flex flex-wrap items-center justify-between gap-4">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-400">
+            Send annotations as
+            <select
+              value={annotationMode}
+              onChange={e => handleAnnotationModeChange(e.target.value as AnnotationMode)}
+              className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="flattened">Drawn onto the image</option>
+              <option value="overlay">Separate overlay layer</option>
+            </select>
+          </label>
+          <OutputSettings settings={outputSettings} onChange={handleOutputSettingsChange} />
+          <label className="inline-flex items-center gap-2 text-sm text-gray-400">
+            Candidates
+            <select
+              value={candidateCount}
+              onChange={e => setCandidateCount(Number(e.target.value))}
+              className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              {Array.from({ length: MAX_CANDIDATES - MIN_CANDIDATES + 1 }, (_, i) => MIN_CANDIDATES + i).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
           <button
             onClick={handleGenerate}
             disabled={!canGenerate}
             className="inline-flex items-center gap-2 px-8 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-bold rounded-lg shadow-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105"
           >
             <SparklesIcon className="w-5 h-5" />
-            Generate Scene
+            {candidateCount > 1 ? `Generate ${candidateCount} Candidates` : 'Generate Scene'}
           </button>
         </div>
       </div>
@@ -173,43 +968,82 @@ const App: React.FC = () => {
                 <button
                     onClick={() => setShowResult(!showResult)}
                     className="flex items-center gap-2 text-sm text-gray-300 hover:text-white transition"
-                    title={showResult ? "Show Original Images" : "Show Generated Result"}
+                    title={showResult ? "Compare with the sources or an earlier result" : "Show Generated Result"}
+                    disabled={comparisonSources.length === 0}
                 >
                     <SwitchIcon />
-                    <span>{showResult ? 'Before' : 'After'}</span>
+                    <span>{showResult ? 'Compare' : 'Result'}</span>
                 </button>
-                <a
-                    href={`data:${resultImage?.mimeType};base64,${resultImage?.base64}`}
-                    download="scene-blender-result.png"
+                <button
+                    onClick={() => setIsEditingResult(true)}
+                    className="flex items-center gap-2 text-sm text-gray-300 hover:text-white transition"
+                    title="Paint a mask and regenerate only that region"
+                >
+                    <BrushIcon />
+                    <span>Inpaint</span>
+                </button>
+                <button
+                    onClick={() => setIsFinishingResult(true)}
+                    className="flex items-center gap-2 text-sm text-gray-300 hover:text-white transition"
+                    title="Crop, rotate and adjust colors locally, without the model"
+                >
+                    <AdjustmentsIcon />
+                    <span>Finish</span>
+                </button>
+                <button
+                    onClick={handleDownload}
+                    title={downloadName}
                     className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition-all"
                 >
                     <DownloadIcon />
                     Download
-                </a>
+                </button>
             </div>
         </div>
-        <div className="aspect-video w-full bg-gray-900 rounded-md overflow-hidden flex items-center justify-center">
-            {showResult && resultImage ? (
-                <img src={`data:${resultImage.mimeType};base64,${resultImage.base64}`} alt="Generated Scene" className="max-h-full max-w-full object-contain" />
-            ) : (
-                <div className="grid grid-cols-2 gap-2 p-2 w-full h-full">
-                    {uploadedImages.map(img => (
-                        <div key={img.id} className="relative w-full h-full bg-gray-700 rounded-sm">
-                            <img src={`data:${img.mimeType};base64,${img.annotatedBase64 || img.base64}`} alt={`Input ${img.id}`} className="w-full h-full object-contain" />
-                        </div>
-                    ))}
-                </div>
-            )}
-        </div>
+        {showResult || !currentVersion || !resultImage ? (
+            <div className="w-full min-h-[16rem] bg-gray-900 rounded-md overflow-hidden flex items-center justify-center">
+                {resultImage && (
+                    <img src={`data:${resultImage.mimeType};base64,${resultImage.base64}`} alt="Generated Scene" className="max-h-[75vh] max-w-full object-contain" />
+                )}
+            </div>
+        ) : (
+            <ComparisonViewer
+                key={currentVersion.id}
+                sources={comparisonSources}
+                result={resultImage}
+                resultLabel={`v${versions.indexOf(currentVersion) + 1}`}
+                initialSourceId={currentVersion.parentId ?? undefined}
+            />
+        )}
+        <DownloadSettings settings={outputSettings} onChange={handleOutputSettingsChange} filenamePreview={downloadName} />
+        <RefinementPanel
+            thread={refinementThread}
+            versionLabel={version => `v${versions.indexOf(version) + 1}`}
+            onRestore={selectVersion}
+            draft={refineDraft}
+            onDraftChange={setRefineDraft}
+            onSend={handleRefine}
+        />
         <div className="mt-6">
             <h3 className="text-lg font-semibold text-gray-300 mb-2">One-Click Enhancements</h3>
             <div className="flex flex-wrap gap-4">
-                <button onClick={() => handleEnhance('Cinematic')} className="flex-1 px-4 py-2 bg-gray-700 text-gray-200 rounded-md hover:bg-blue-600 hover:text-white transition">Make it more Cinematic</button>
-                <button onClick={() => handleEnhance('Photorealistic')} className="flex-1 px-4 py-2 bg-gray-700 text-gray-200 rounded-md hover:bg-purple-600 hover:text-white transition">Boost Photorealism</button>
+                {enhancementTemplates.map(t => (
+                    <button
+                        key={t.id}
+                        onClick={() => handleUseTemplate(t)}
+                        title={t.template}
+                        className="flex-1 px-4 py-2 bg-gray-700 text-gray-200 rounded-md hover:bg-blue-600 hover:text-white transition"
+                    >
+                        {t.name}
+                    </button>
+                ))}
+                <button onClick={() => setShowTemplateLibrary(true)} className="px-4 py-2 text-gray-400 rounded-md hover:bg-gray-700 hover:text-white transition">
+                    Edit presets
+                </button>
             </div>
         </div>
         <div className="mt-6 text-center">
-            <button onClick={() => setResultImage(null)} className="text-gray-400 hover:text-white transition">
+            <button onClick={() => selectVersion(null)} className="text-gray-400 hover:text-white transition">
                 + Create a new scene
             </button>
         </div>
@@ -224,34 +1058,155 @@ const App: React.FC = () => {
         {error && (
           <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded-lg relative mb-6" role="alert">
             <strong className="font-bold">Error: </strong>
-            <span className="block sm:inline">{error}</span>
+            <span className="block sm:inline">{error.message}</span>
+            {error.guidance && <p className="mt-1 text-sm text-red-300 pr-8">{error.guidance}</p>}
             <span className="absolute top-0 bottom-0 right-0 px-4 py-3" onClick={() => setError(null)}>
               <svg className="fill-current h-6 w-6 text-red-400" role="button" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><title>Close</title><path d="M14.348 14.849a1.2 1.2 0 0 1-1.697 0L10 11.819l-2.651 3.029a1.2 1.2 0 1 1-1.697-1.697l2.758-3.15-2.759-3.152a1.2 1.2 0 1 1 1.697-1.697L10 8.183l2.651-3.031a1.2 1.2 0 1 1 1.697 1.697l-2.758 3.152 2.758 3.15a1.2 1.2 0 0 1 0 1.698z"/></svg>
             </span>
           </div>
         )}
 
-        {isLoading ? (
-          <div className="flex flex-col items-center justify-center h-96">
-            <Spinner />
-            <p className="mt-4 text-lg text-gray-300">{loadingMessage}</p>
+        {budgetStatus.exceeded && (
+          <div className="bg-yellow-900 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-lg mb-6" role="status">
+            Today's estimated spend ({formatCost(budgetStatus.spent)}) has reached the daily budget of {formatCost(usage.budget.dailyLimit ?? 0)}.
+            {' '}{usage.budget.onExceeded === 'block' ? 'New requests are blocked until tomorrow.' : 'Requests still go through.'}
+            {' '}<button onClick={() => setShowUsage(true)} className="underline hover:text-white">Review usage</button>
           </div>
+        )}
+
+        {recipeOffer && (
+          <RecipeBanner
+            offer={recipeOffer}
+            onRestore={() => handleRestoreRecipe(recipeOffer)}
+            onDismiss={() => setRecipeOffer(null)}
+          />
+        )}
+
+        {candidateRun && !showCandidates && (
+          <div className="mb-6 text-center">
+            <button onClick={() => setShowCandidates(true)} className="text-sm text-blue-400 hover:text-blue-300 transition">
+              {isRunningCandidates ? 'Candidates are still generating. View them' : `View the ${candidateRun.candidates.length} candidates from your last run`}
+            </button>
+          </div>
+        )}
+
+        {showCandidates && candidateRun ? (
+            <CandidateGrid
+              candidates={candidateRun.candidates}
+              onToggleStar={(id) => updateCandidate(id, { starred: !candidateRun.candidates.find(c => c.id === id)?.starred })}
+              onDiscard={(id) => setCandidateRun(prev => prev && { ...prev, candidates: prev.candidates.filter(c => c.id !== id) })}
+              onRetry={handleRetryCandidate}
+              onPromote={handlePromoteCandidate}
+              onClose={() => setShowCandidates(false)}
+            />
         ) : resultImage ? (
             renderResultSection()
         ) : (
             renderInputSection()
         )}
+
+        {versions.length > 0 && (
+          <div className="mt-6">
+            <VersionTree
+              versions={versions}
+              currentVersionId={currentVersionId}
+              onSelect={(id) => { selectVersion(id); setShowResult(true); }}
+              onCompare={(firstId, secondId) => setCompareIds([firstId, secondId])}
+            />
+          </div>
+        )}
       </div>
 
+      <JobTray
+        jobs={jobs}
+        onCancel={cancelJob}
+        onRetry={retryJob}
+        onDismiss={dismissJob}
+        onClearFinished={clearFinished}
+        onView={(id) => { selectVersion(id); setShowResult(true); }}
+      />
+
       {showHelpModal && (
         <HelpModal onClose={() => setShowHelpModal(false)} />
       )}
 
+      {showUsage && (
+        <UsagePanel
+            sessionId={activeSessionId}
+            sessionName={sessions.find(s => s.id === activeSessionId)?.name ?? null}
+            onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {showTemplateLibrary && (
+        <TemplateLibraryModal
+            templates={templates}
+            onAdd={addTemplate}
+            onUpdate={updateTemplate}
+            onRemove={removeTemplate}
+            onImport={handleImportTemplates}
+            onExport={() => downloadBlob(createTemplatePack(templates), 'scene-blender-presets.json')}
+            onReset={resetToDefaults}
+            onClose={() => setShowTemplateLibrary(false)}
+        />
+      )}
+
+      {fillingTemplate && (
+        <TemplateFillModal
+            template={fillingTemplate}
+            onApply={text => applyTemplate(fillingTemplate, text)}
+            onClose={() => setFillingTemplate(null)}
+        />
+      )}
+
+      {compareVersions && (
+        <VersionCompareModal
+            versions={compareVersions}
+            labels={[`v${versions.indexOf(compareVersions[0]) + 1}`, `v${versions.indexOf(compareVersions[1]) + 1}`]}
+            onClose={() => setCompareIds(null)}
+        />
+      )}
+
       {imageToEdit && (
         <ImageEditorModal
             image={imageToEdit}
+            title={`Edit Image ${slotNumber(images, imageToEdit.id)}`}
+            legend={legend}
+            onLegendChange={handleLegendChange}
             onClose={() => setEditingImageId(null)}
             onSave={handleSaveAnnotation}
+            onInpaint={request => handleInpaintSlot(imageToEdit.id, request)}
+        />
+      )}
+
+      {isEditingResult && currentVersion && (
+        <ImageEditorModal
+            image={{ ...createEmptySlot(0), base64: currentVersion.image.base64, mimeType: currentVersion.image.mimeType }}
+            target="result"
+            legend={legend}
+            onLegendChange={handleLegendChange}
+            title={`Inpaint v${versions.indexOf(currentVersion) + 1}`}
+            onClose={() => setIsEditingResult(false)}
+            onInpaint={handleInpaintResult}
+        />
+      )}
+
+      {isFinishingResult && currentVersion && (
+        <FinishingModal
+            image={currentVersion.image}
+            title={`Finish v${versions.indexOf(currentVersion) + 1}`}
+            onApply={handleApplyFinish}
+            onClose={() => setIsFinishingResult(false)}
+        />
+      )}
+
+      {paletteActions && (
+        <CommandPalette
+            actions={paletteActions}
+            bindings={bindings}
+            onRebind={setBinding}
+            onResetBindings={resetBindings}
+            onClose={() => setPaletteActions(null)}
         />
       )}
     </div>
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import type { Candidate } from '../types';
+import { toDataUrl } from '../utils/imageUtils';
+import { useShortcuts } from '../hooks/useShortcuts';
+import Spinner from './Spinner';
+import { CloseIcon, StarIcon, TrashIcon, ZoomInIcon } from './icons';
+
+interface CandidateGridProps {
+  candidates: Candidate[];
+  onToggleStar: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onRetry: (id: string) => void;
+  onPromote: (id: string) => void;
+  onClose: () => void;
+}
+
+const CandidateGrid: React.FC<CandidateGridProps> = ({ candidates, onToggleStar, onDiscard, onRetry, onPromote, onClose }) => {
+  const [zoomedId, setZoomedId] = useState<string | null>(null);
+  const zoomed = candidates.find(c => c.id === zoomedId && c.image);
+
+  useShortcuts([{
+    id: 'close-dialog',
+    label: zoomed ? 'Close preview' : 'Close candidates',
+    group: 'General',
+    run: () => (zoomed ? setZoomedId(null) : onClose()),
+  }]);
+
+  const pendingCount = candidates.filter(c => c.status === 'pending').length;
+  const failedCount = candidates.filter(c => c.status === 'error').length;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Candidates</h2>
+          <p className="text-sm text-gray-400">
+            {pendingCount > 0 ? `${pendingCount} still generating. ` : ''}
+            {failedCount > 0 ? `${failedCount} failed. ` : ''}
+            Star the ones you like and promote one to keep working on it.
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close candidates">
+          <CloseIcon />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {candidates.map((candidate, i) => (
+          <div key={candidate.id} className={`rounded-md overflow-hidden bg-gray-900 flex flex-col ${candidate.starred ? 'ring-2 ring-yellow-400' : ''}`}>
+            <div className="aspect-video flex items-center justify-center relative">
+              {candidate.status === 'pending' && <Spinner />}
+              {candidate.status === 'error' && (
+                <div className="p-3 text-center">
+                  <p className="text-sm text-red-300">{candidate.error}</p>
+                  <button onClick={() => onRetry(candidate.id)} className="mt-2 px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600">
+                    Retry
+                  </button>
+                </div>
+              )}
+              {candidate.status === 'done' && candidate.image && (
+                <img
+                  src={toDataUrl(candidate.image)}
+                  alt={`Candidate ${i + 1}`}
+                  className="max-h-full max-w-full object-contain cursor-zoom-in"
+                  onClick={() => setZoomedId(candidate.id)}
+                />
+              )}
+              <span className="absolute top-2 left-2 bg-gray-900 bg-opacity-70 text-white text-xs font-bold px-2 py-1 rounded">
+                #{i + 1}
+              </span>
+            </div>
+            <div className="flex items-center gap-1 p-2">
+              <button
+                onClick={() => onToggleStar(candidate.id)}
+                disabled={candidate.status !== 'done'}
+                className={`p-1.5 rounded-md hover:bg-gray-700 disabled:opacity-40 ${candidate.starred ? 'text-yellow-400' : 'text-gray-400'}`}
+                title={candidate.starred ? 'Unstar' : 'Star'}
+              >
+                <StarIcon className={`w-4 h-4 ${candidate.starred ? 'fill-current' : ''}`} />
+              </button>
+              <button
+                onClick={() => setZoomedId(candidate.id)}
+                disabled={candidate.status !== 'done'}
+                className="p-1.5 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-40"
+                title="Zoom"
+              >
+                <ZoomInIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onDiscard(candidate.id)}
+                disabled={candidate.status === 'pending'}
+                className="p-1.5 rounded-md text-gray-400 hover:bg-gray-700 hover:text-red-400 disabled:opacity-40"
+                title="Discard"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onPromote(candidate.id)}
+                disabled={candidate.status !== 'done'}
+                className="ml-auto px-3 py-1 text-sm bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Use this
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {zoomed?.image && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 cursor-zoom-out"
+          onClick={() => setZoomedId(null)}
+          aria-modal="true"
+          role="dialog"
+        >
+          <img src={toDataUrl(zoomed.image)} alt="Zoomed candidate" className="max-w-full max-h-full object-contain" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateGrid;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import type { ShortcutBindings } from '../types';
+import { useShortcuts, type ShortcutAction } from '../hooks/useShortcuts';
+import { eventToCombo, formatCombo } from '../utils/shortcuts';
+
+interface CommandPaletteProps {
+  // Snapshot of the actions that were reachable when the palette opened.
+  actions: ShortcutAction[];
+  bindings: ShortcutBindings;
+  onRebind: (id: string, combos: string[]) => void;
+  onResetBindings: () => void;
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ actions, bindings, onRebind, onResetBindings, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  // The action whose new key combo is being recorded.
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+
+  // The same shortcut that opened the palette closes it.
+  useShortcuts([{ id: 'command-palette', label: 'Close command palette', group: 'General', run: onClose, allowInInputs: true }], true);
+
+  const needle = query.trim().toLowerCase();
+  const matches = actions.filter(a => `${a.group} ${a.label}`.toLowerCase().includes(needle));
+
+  // While recording, the next key press is captured before anything else can act on it.
+  useEffect(() => {
+    if (!recordingId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === 'Escape') {
+        setRecordingId(null);
+        return;
+      }
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      onRebind(recordingId, [combo]);
+      setRecordingId(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, onRebind]);
+
+  const runAction = (action: ShortcutAction | undefined) => {
+    if (!action || action.enabled === false) return;
+    onClose();
+    action.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(Math.max(0, Math.min(matches.length - 1, highlighted + step)));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runAction(matches[highlighted]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  // Other reachable actions bound to one of the same combos.
+  const conflictsOf = (action: ShortcutAction) =>
+    actions.filter(other => other.id !== action.id && (bindings[other.id] ?? []).some(c => (bindings[action.id] ?? []).includes(c)));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-start justify-center z-50 p-4 pt-[10vh]"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-[75vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={e => { setQuery(e.target.value); setHighlighted(0); }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command…"
+          className="m-3 bg-gray-700 border-gray-600 rounded-md text-gray-200 focus:ring-blue-500 focus:border-blue-500"
+          aria-label="Search commands"
+        />
+        <ul className="flex-grow overflow-y-auto px-3 pb-3 space-y-1" role="listbox">
+          {matches.length === 0 && <li className="px-2 py-4 text-sm text-gray-400">No matching commands.</li>}
+          {matches.map((action, index) => {
+            const combos = bindings[action.id] ?? [];
+            const conflicts = conflictsOf(action);
+            const isDisabled = action.enabled === false;
+            return (
+              <li
+                key={action.id}
+                role="option"
+                aria-selected={index === highlighted}
+                aria-disabled={isDisabled}
+                onMouseEnter={() => setHighlighted(index)}
+                onClick={() => runAction(action)}
+                className={`flex items-center gap-3 px-2 py-1.5 rounded-md text-sm ${index === highlighted ? 'bg-gray-700' : ''} ${isDisabled ? 'text-gray-500' : 'text-gray-200 cursor-pointer'}`}
+              >
+                <span className="w-20 flex-shrink-0 text-xs text-gray-400">{action.group}</span>
+                <span className="flex-grow truncate">
+                  {action.label}
+                  {conflicts.length > 0 && (
+                    <span className="ml-2 text-xs text-yellow-400">Same keys as {conflicts.map(c => c.label).join(', ')}</span>
+                  )}
+                </span>
+                {recordingId === action.id ? (
+                  <span className="text-xs text-blue-300">Press keys… (Esc to cancel)</span>
+                ) : (
+                  combos.map(combo => (
+                    <kbd key={combo} className="px-1.5 py-0.5 text-xs bg-gray-900 border border-gray-600 rounded">{formatCombo(combo)}</kbd>
+                  ))
+                )}
+                <button
+                  onClick={(e) => { e.stopPropagation(); setRecordingId(action.id); }}
+                  className="text-xs text-blue-400 hover:text-blue-300"
+                >
+                  Change
+                </button>
+                {combos.length > 0 && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRebind(action.id, []); }}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    Clear
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex justify-between items-center px-4 py-2 border-t border-gray-700 text-xs text-gray-400">
+          <span>↑↓ to choose, Enter to run, Esc to close</span>
+          <button onClick={onResetBindings} className="hover:text-white">Reset all shortcuts</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
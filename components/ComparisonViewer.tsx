@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { GeneratedImage } from '../types';
+import { toDataUrl } from '../utils/imageUtils';
+import { createDifferenceMap, type DifferenceMap } from '../utils/imageDiff';
+import Spinner from './Spinner';
+
+export interface ComparisonSource {
+  id: string;
+  label: string;
+  image: GeneratedImage;
+}
+
+type CompareMode = 'split' | 'onion' | 'difference' | 'side-by-side';
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface ComparisonViewerProps {
+  sources: ComparisonSource[];
+  result: GeneratedImage;
+  resultLabel: string;
+  initialSourceId?: string;
+}
+
+const modeLabels: Record<CompareMode, string> = {
+  split: 'Split',
+  onion: 'Onion skin',
+  difference: 'Difference',
+  'side-by-side': 'Side by side',
+};
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+const FIT_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ sources, result, resultLabel, initialSourceId }) => {
+  const [sourceId, setSourceId] = useState<string | undefined>(initialSourceId ?? sources[0]?.id);
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [split, setSplit] = useState(50);
+  const [opacity, setOpacity] = useState(0.5);
+  const [view, setView] = useState<ViewTransform>(FIT_VIEW);
+  const [difference, setDifference] = useState<DifferenceMap | null>(null);
+  const [isComputingDifference, setIsComputingDifference] = useState(false);
+  const [differenceError, setDifferenceError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const panStart = useRef<{ pointerX: number; pointerY: number; view: ViewTransform } | null>(null);
+
+  const source = sources.find(s => s.id === sourceId) ?? sources[0];
+
+  useEffect(() => {
+    if (sourceId && sources.some(s => s.id === sourceId)) return;
+    setSourceId(initialSourceId ?? sources[0]?.id);
+  }, [sources, sourceId, initialSourceId]);
+
+  useEffect(() => {
+    setDifference(null);
+    setDifferenceError(null);
+    if (mode !== 'difference' || !source) return;
+    let cancelled = false;
+    setIsComputingDifference(true);
+    createDifferenceMap(source.image, result)
+      .then(map => { if (!cancelled) setDifference(map); })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setDifferenceError('Could not compute the difference map. One of the images may not be decodable.');
+      })
+      .finally(() => { if (!cancelled) setIsComputingDifference(false); });
+    return () => { cancelled = true; };
+  }, [mode, source, result]);
+
+  // React registers wheel listeners as passive, so zooming needs a native listener to stop page scroll.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      const viewport = (e.target as Element).closest('[data-viewport]');
+      if (!viewport) return;
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      // Cursor position relative to the viewport centre, which is the transform origin.
+      const px = e.clientX - rect.left - rect.width / 2;
+      const py = e.clientY - rect.top - rect.height / 2;
+      setView(prev => {
+        const scale = clampScale(prev.scale * Math.exp(-e.deltaY * 0.0015));
+        if (scale === MIN_SCALE) return FIT_VIEW;
+        const ratio = scale / prev.scale;
+        return { scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+      });
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (view.scale === MIN_SCALE) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStart.current = { pointerX: e.clientX, pointerY: e.clientY, view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = panStart.current;
+    if (!start) return;
+    setView({
+      ...start.view,
+      x: start.view.x + e.clientX - start.pointerX,
+      y: start.view.y + e.clientY - start.pointerY,
+    });
+  };
+
+  const handlePointerUp = () => {
+    panStart.current = null;
+  };
+
+  const handleSplitDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    if (e.type === 'pointerdown') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+    } else if (!e.currentTarget.hasPointerCapture(e.pointerId)) {
+      return;
+    }
+    const viewport = e.currentTarget.parentElement;
+    if (!viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const zoomBy = (factor: number) => {
+    setView(prev => {
+      const scale = clampScale(prev.scale * factor);
+      if (scale === MIN_SCALE) return FIT_VIEW;
+      const ratio = scale / prev.scale;
+      return { scale, x: prev.x * ratio, y: prev.y * ratio };
+    });
+  };
+
+  const layerStyle: React.CSSProperties = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+  };
+
+  const renderLayer = (image: GeneratedImage, alt: string, style?: React.CSSProperties) => (
+    <img
+      src={toDataUrl(image)}
+      alt={alt}
+      draggable={false}
+      className="absolute inset-0 w-full h-full object-contain select-none"
+      style={{ ...layerStyle, ...style }}
+    />
+  );
+
+  const viewportProps = {
+    'data-viewport': true,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    className: `relative w-full h-full overflow-hidden bg-gray-900 rounded-md touch-none ${view.scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : ''}`,
+  };
+
+  const renderCaption = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} bg-gray-900 bg-opacity-70 text-white text-xs font-bold px-2 py-1 rounded pointer-events-none`}>
+      {text}
+    </span>
+  );
+
+  if (!source) {
+    return (
+      <div className="aspect-video w-full bg-gray-900 rounded-md flex items-center justify-center text-gray-400">
+        Nothing to compare against yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+        <label className="inline-flex items-center gap-2 text-gray-400">
+          Compare with
+          <select
+            value={source.id}
+            onChange={e => setSourceId(e.target.value)}
+            className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {sources.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+        </label>
+        <div className="flex rounded-md overflow-hidden border border-gray-600">
+          {(Object.keys(modeLabels) as CompareMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 ${mode === m ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {modeLabels[m]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 text-gray-300">
+          <button onClick={() => zoomBy(1 / 1.5)} className="px-2 py-1 bg-gray-700 rounded-md hover:bg-gray-600" aria-label="Zoom out">−</button>
+          <span className="w-12 text-center">{Math.round(view.scale * 100)}%</span>
+          <button onClick={() => zoomBy(1.5)} className="px-2 py-1 bg-gray-700 rounded-md hover:bg-gray-600" aria-label="Zoom in">+</button>
+          <button onClick={() => setView(FIT_VIEW)} className="ml-1 px-2 py-1 bg-gray-700 rounded-md hover:bg-gray-600">Fit</button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className={`aspect-video w-full ${mode === 'side-by-side' ? 'grid grid-cols-2 gap-2' : ''}`}>
+        {mode === 'split' && (
+          <div {...viewportProps}>
+            {renderLayer(result, resultLabel)}
+            <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+              {renderLayer(source.image, source.label)}
+            </div>
+            <div
+              className="absolute inset-y-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+              style={{ left: `${split}%` }}
+              onPointerDown={handleSplitDrag}
+              onPointerMove={handleSplitDrag}
+              role="slider"
+              aria-label="Split position"
+              aria-valuenow={Math.round(split)}
+            >
+              <div className="w-0.5 h-full bg-white shadow" />
+            </div>
+            {renderCaption(source.label, 'left')}
+            {renderCaption(resultLabel, 'right')}
+          </div>
+        )}
+
+        {mode === 'onion' && (
+          <div {...viewportProps}>
+            {renderLayer(source.image, source.label)}
+            {renderLayer(result, resultLabel, { opacity })}
+            {renderCaption(`${source.label} → ${resultLabel}`, 'left')}
+          </div>
+        )}
+
+        {mode === 'difference' && (
+          <div {...viewportProps}>
+            {difference && renderLayer(difference.image, `Difference between ${source.label} and ${resultLabel}`)}
+            {isComputingDifference && (
+              <div className="absolute inset-0 flex items-center justify-center"><Spinner /></div>
+            )}
+            {difference && renderCaption(`${(difference.changedRatio * 100).toFixed(1)}% of pixels changed`, 'left')}
+            {differenceError && (
+              <p className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-red-300">{differenceError}</p>
+            )}
+          </div>
+        )}
+
+        {mode === 'side-by-side' && (
+          <>
+            <div {...viewportProps}>
+              {renderLayer(source.image, source.label)}
+              {renderCaption(source.label, 'left')}
+            </div>
+            <div {...viewportProps}>
+              {renderLayer(result, resultLabel)}
+              {renderCaption(resultLabel, 'left')}
+            </div>
+          </>
+        )}
+      </div>
+
+      {mode === 'onion' && (
+        <label className="flex items-center gap-3 text-sm text-gray-400">
+          {source.label}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={opacity}
+            onChange={e => setOpacity(Number(e.target.value))}
+            className="flex-grow"
+          />
+          {resultLabel}
+        </label>
+      )}
+      <p className="text-xs text-gray-500">Scroll to zoom and drag to pan. Both images stay in sync.</p>
+    </div>
+  );
+};
+
+export default ComparisonViewer;
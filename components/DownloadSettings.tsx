@@ -0,0 +1,57 @@
+import React from 'react';
+import type { IngestFormat, OutputSettings } from '../types';
+
+interface DownloadSettingsProps {
+  settings: OutputSettings;
+  onChange: (settings: OutputSettings) => void;
+  // What the current version would be saved as, so template changes are visible immediately.
+  filenamePreview: string;
+}
+
+const inputClass = "bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500";
+
+const DownloadSettings: React.FC<DownloadSettingsProps> = ({ settings, onChange, filenamePreview }) => (
+  <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-4 text-sm text-gray-400">
+    <label className="inline-flex items-center gap-2">
+      Download as
+      <select
+        value={settings.format}
+        onChange={e => onChange({ ...settings, format: e.target.value as IngestFormat })}
+        className={inputClass}
+      >
+        <option value="image/png">PNG</option>
+        <option value="image/jpeg">JPEG</option>
+        <option value="image/webp">WebP</option>
+      </select>
+    </label>
+    {settings.format !== 'image/png' && (
+      <label className="inline-flex items-center gap-2">
+        Quality
+        <input
+          type="range"
+          min={0.5}
+          max={1}
+          step={0.01}
+          value={settings.quality}
+          onChange={e => onChange({ ...settings, quality: Number(e.target.value) })}
+        />
+        <span className="w-10 text-gray-300">{Math.round(settings.quality * 100)}%</span>
+      </label>
+    )}
+    <label className="inline-flex items-center gap-2 flex-grow">
+      File name
+      <input
+        type="text"
+        value={settings.filenameTemplate}
+        onChange={e => onChange({ ...settings, filenameTemplate: e.target.value })}
+        className={`${inputClass} flex-grow min-w-[12rem]`}
+        title="Placeholders: {date}, {time}, {prompt-slug}, {version}, {kind}"
+      />
+    </label>
+    <span className="w-full text-xs text-gray-500 truncate">
+      Saves as {filenamePreview}. Placeholders: {'{date}'}, {'{time}'}, {'{prompt-slug}'}, {'{version}'}, {'{kind}'}.
+    </span>
+  </div>
+);
+
+export default DownloadSettings;
@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FinishRotation, FinishSettings, GeneratedImage, OutputAspectRatio } from '../types';
+import { DEFAULT_FINISH_SETTINGS, FINISH_PREVIEW_MAX_SIZE, OUTPUT_ASPECT_RATIOS } from '../constants';
+import { canvasToImage, loadImageElement, toDataUrl } from '../utils/imageUtils';
+import { describeFinish, isUnchanged, renderFinish, rotatedSize } from '../utils/finishing';
+import { aspectRatioValue } from '../utils/output';
+import { useShortcuts } from '../hooks/useShortcuts';
+import Spinner from './Spinner';
+import { CloseIcon } from './icons';
+
+interface FinishingModalProps {
+  image: GeneratedImage;
+  title: string;
+  onApply: (image: GeneratedImage, description: string) => void;
+  onClose: () => void;
+}
+
+type AdjustmentKey = 'exposure' | 'contrast' | 'saturation' | 'temperature' | 'tint' | 'vignette' | 'sharpen' | 'grain';
+
+const adjustments: { key: AdjustmentKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.05 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+  { key: 'vignette', label: 'Vignette', min: 0, max: 100, step: 1 },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1 },
+  { key: 'grain', label: 'Grain', min: 0, max: 100, step: 1 },
+];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const FinishingModal: React.FC<FinishingModalProps> = ({ image, title, onApply, onClose }) => {
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [settings, setSettings] = useState<FinishSettings>(DEFAULT_FINISH_SETTINGS);
+  const [isCropping, setIsCropping] = useState(false);
+  const [cropAspect, setCropAspect] = useState<OutputAspectRatio>('auto');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  // Where the current crop drag started, as fractions of the rotated image.
+  const cropStart = useRef<{ x: number; y: number } | null>(null);
+
+  useShortcuts([{ id: 'close-dialog', label: 'Close finishing tools', group: 'General', run: onClose, allowInInputs: true }], true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageElement(toDataUrl(image))
+      .then(element => {
+        if (!cancelled) setSource(element);
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError('This image could not be loaded for finishing.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  // While cropping, the whole image is shown so the crop can be drawn over it.
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!source || !preview) return;
+    const rendered = renderFinish(source, settings, { maxSize: FINISH_PREVIEW_MAX_SIZE, applyCrop: !isCropping });
+    preview.width = rendered.width;
+    preview.height = rendered.height;
+    preview.getContext('2d')?.drawImage(rendered, 0, 0);
+  }, [source, settings, isCropping]);
+
+  const update = (changes: Partial<FinishSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  // A crop no longer lines up once the image turns, so rotating starts it over.
+  const rotate = (degrees: 90 | -90) =>
+    update({ rotation: ((settings.rotation + degrees + 360) % 360) as FinishRotation, crop: DEFAULT_FINISH_SETTINGS.crop });
+
+  const pointerToFraction = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handleCropPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    cropStart.current = pointerToFraction(e);
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = cropStart.current;
+    if (!start || !source) return;
+    const point = pointerToFraction(e);
+    let width = Math.abs(point.x - start.x);
+    let height = Math.abs(point.y - start.y);
+    const ratio = aspectRatioValue(cropAspect);
+    if (ratio !== null) {
+      // Fractions of a non-square image: convert the pixel ratio before locking the height.
+      const rotated = rotatedSize(source.naturalWidth, source.naturalHeight, settings.rotation);
+      height = (width * rotated.width) / ratio / rotated.height;
+      // Shrink to fit when the locked height runs off the image.
+      const room = point.y >= start.y ? 1 - start.y : start.y;
+      if (height > room) {
+        width *= room / height;
+        height = room;
+      }
+    }
+    if (width < 0.01 || height < 0.01) return;
+    update({
+      crop: {
+        x: point.x >= start.x ? start.x : start.x - width,
+        y: point.y >= start.y ? start.y : start.y - height,
+        width,
+        height,
+      },
+    });
+  };
+
+  const handleCropPointerUp = () => {
+    cropStart.current = null;
+  };
+
+  const handleApply = () => {
+    if (!source) return;
+    setError(null);
+    setIsApplying(true);
+    // Let the spinner paint before the full-size render blocks the page.
+    setTimeout(() => {
+      try {
+        onApply(canvasToImage(renderFinish(source, settings), 'image/png'), describeFinish(settings));
+      } catch (err) {
+        console.error(err);
+        setError(`Could not render the full-size image${err instanceof Error ? `: ${err.message}` : '.'} Very large images may exceed the browser's canvas limits; try cropping first.`);
+      } finally {
+        setIsApplying(false);
+      }
+    }, 0);
+  };
+
+  const buttonClass = 'px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600';
+  const { crop } = settings;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">{title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close finishing tools">
+            <CloseIcon />
+          </button>
+        </div>
+        <div className="flex flex-col md:flex-row gap-4 p-4 overflow-y-auto">
+          <div className="flex-grow flex items-center justify-center bg-gray-900 rounded-md min-h-[16rem] p-2">
+            {error && !source ? <p className="text-sm text-red-300">{error}</p> : !source ? <Spinner /> : (
+              <div className="relative">
+                <canvas ref={previewRef} className="block max-w-full max-h-[65vh]" />
+                {isCropping && (
+                  <div
+                    className="absolute inset-0 overflow-hidden cursor-crosshair touch-none"
+                    onPointerDown={handleCropPointerDown}
+                    onPointerMove={handleCropPointerMove}
+                    onPointerUp={handleCropPointerUp}
+                    onPointerCancel={handleCropPointerUp}
+                  >
+                    <div
+                      className="absolute border-2 border-white pointer-events-none"
+                      style={{
+                        left: `${crop.x * 100}%`,
+                        top: `${crop.y * 100}%`,
+                        width: `${crop.width * 100}%`,
+                        height: `${crop.height * 100}%`,
+                        boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="md:w-72 flex-shrink-0 flex flex-col gap-4 text-sm text-gray-300">
+            <div className="flex flex-col gap-2">
+              <h3 className="font-semibold text-gray-200">Geometry</h3>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => rotate(-90)} className={buttonClass}>Rotate left</button>
+                <button onClick={() => rotate(90)} className={buttonClass}>Rotate right</button>
+                <button onClick={() => update({ flipHorizontal: !settings.flipHorizontal })} className={buttonClass}>Flip ↔</button>
+                <button onClick={() => update({ flipVertical: !settings.flipVertical })} className={buttonClass}>Flip ↕</button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => setIsCropping(!isCropping)}
+                  className={`px-3 py-1 text-sm rounded-md ${isCropping ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                >
+                  {isCropping ? 'Done cropping' : 'Crop'}
+                </button>
+                <select
+                  value={cropAspect}
+                  onChange={e => setCropAspect(e.target.value as OutputAspectRatio)}
+                  className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+                  aria-label="Crop aspect ratio"
+                >
+                  {OUTPUT_ASPECT_RATIOS.map(ratio => (
+                    <option key={ratio} value={ratio}>{ratio === 'auto' ? 'Free' : ratio}</option>
+                  ))}
+                </select>
+                <button onClick={() => update({ crop: DEFAULT_FINISH_SETTINGS.crop })} className="text-xs text-gray-400 hover:text-white">
+                  Reset crop
+                </button>
+              </div>
+              {isCropping && <p className="text-xs text-gray-400">Drag over the image to choose the area to keep.</p>}
+            </div>
+            <div className="flex flex-col gap-2">
+              <h3 className="font-semibold text-gray-200">Adjustments</h3>
+              {adjustments.map(({ key, label, min, max, step }) => (
+                <label key={key} className="flex flex-col gap-1">
+                  <span className="flex justify-between">
+                    {label}
+                    <span className="text-gray-400">{settings[key]}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={settings[key]}
+                    onChange={e => update({ [key]: Number(e.target.value) })}
+                    onDoubleClick={() => update({ [key]: DEFAULT_FINISH_SETTINGS[key] })}
+                    title="Double-click to reset"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-between items-center gap-4 p-4 border-t border-gray-700">
+          {error && source
+            ? <span className="text-sm text-red-300">{error}</span>
+            : <span className="text-sm text-gray-400 truncate">{describeFinish(settings) || 'No changes yet.'}</span>}
+          <div className="flex gap-2 flex-shrink-0">
+            <button onClick={() => setSettings(DEFAULT_FINISH_SETTINGS)} className="px-4 py-2 text-gray-300 rounded-md hover:bg-gray-700">
+              Reset all
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!source || isUnchanged(settings) || isApplying}
+              className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApplying ? 'Applying…' : 'Save as new version'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FinishingModal;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { useShortcuts } from '../hooks/useShortcuts';
 import { CloseIcon } from './icons';
 
 interface HelpModalProps {
@@ -6,6 +7,8 @@ interface HelpModalProps {
 }
 
 const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
+  useShortcuts([{ id: 'close-dialog', label: 'Close help', group: 'General', run: onClose, allowInInputs: true }], true);
+
   const imageUrl = "https://i.ibb.co/Dgv81Vx8/Screenshot-2025-09-07-093512.png";
 
   return (
@@ -1,108 +1,286 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import type { UploadedImage } from '../types';
-import { PenIcon, CircleIcon, SquareIcon, EraserIcon, UndoIcon, MoveIcon, CloseIcon } from './icons';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import type { Annotation, GeneratedImage, LegendEntry, MaskStroke, Point, UploadedImage } from '../types';
+import { annotationFont, collectAnnotationHints, drawAnnotation, drawAnnotations, findAnnotationAt, getBounds, hitTest, renderAnnotationLayers, translateAnnotation } from '../utils/annotations';
+import { drawMaskStrokes, renderMaskImage } from '../utils/masking';
+import { createHistory, jumpTo, pushEntry, stateAt, type EditorCommand } from '../utils/editorHistory';
+import { findLegendEntry } from '../utils/legend';
+import { useShortcuts, type ShortcutAction } from '../hooks/useShortcuts';
+import { PenIcon, CircleIcon, SquareIcon, ArrowIcon, TextIcon, EraserIcon, UndoIcon, RedoIcon, HistoryIcon, MoveIcon, CloseIcon, TrashIcon, BrushIcon, SparklesIcon } from './icons';
 
-type DrawingTool = 'pen' | 'circle' | 'box' | 'eraser' | 'move';
-interface SelectionRect { x: number; y: number; width: number; height: number; }
+type DrawingTool = 'pen' | 'circle' | 'box' | 'arrow' | 'text' | 'eraser' | 'move' | 'mask';
+
+export type EditorUpdate = Pick<UploadedImage, 'annotations' | 'annotationHints' | 'annotatedBase64' | 'annotationOverlayBase64'> & {
+  base64: string;
+  mimeType: string;
+  // Instructions of the inpainting passes applied to the base image, in order.
+  edits: string[];
+};
+
+// An inpainting pass for the job queue; the result is composited back by whoever runs it.
+export interface InpaintRequest {
+  base: GeneratedImage;
+  mask: MaskStroke[];
+  maskImage: GeneratedImage;
+  // In image pixels.
+  feather: number;
+  instruction: string;
+}
 
 interface ImageEditorModalProps {
   image: UploadedImage;
+  // Generated results can only be inpainted; annotations are for source images.
+  target?: 'source' | 'result';
+  title: string;
+  // Shared by all images and sessions; edited here but owned by the app.
+  legend: LegendEntry[];
+  onLegendChange: (legend: LegendEntry[]) => void;
   onClose: () => void;
-  onSave: (id: number, annotatedBase64: string) => void;
+  // Source images only; a result is never saved from here, each inpainting pass becomes a version.
+  onSave?: (id: number, update: EditorUpdate) => void;
+  onInpaint: (request: InpaintRequest) => void;
+}
+
+// Sizes are in screen pixels and converted to image space when a shape is created.
+const DEFAULT_STROKE_WIDTH = 5;
+const MAX_STROKE_WIDTH = 60;
+const HIT_TOLERANCE = 6;
+const DEFAULT_FONT_SIZE = 24;
+const MAX_ZOOM = 16;
+
+// Maps image pixels to viewport CSS pixels: screen = image * scale + (x, y).
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
 }
+const MASK_PREVIEW_COLOR = 'rgba(239, 68, 68, 0.45)';
+
+const shapeLabels: Record<Annotation['type'], string> = {
+  stroke: 'Pen stroke',
+  circle: 'Circle',
+  box: 'Box',
+  arrow: 'Arrow',
+  text: 'Label',
+};
+
+type Interaction =
+  | { mode: 'draw'; draft: Annotation }
+  | { mode: 'mask'; draft: MaskStroke }
+  | { mode: 'move'; start: Point; origin: Annotation }
+  | { mode: 'erase' }
+  | { mode: 'pan'; start: Point; origin: ViewTransform }
+  // Two-finger pan and zoom; `midpoint` is in viewport coordinates.
+  | { mode: 'pinch'; distance: number; midpoint: Point; origin: ViewTransform };
 
-const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ image, onClose, onSave }) => {
+// A label being typed in the inline text box; `id` is null until the label is first committed.
+interface TextEdit {
+  id: string | null;
+  position: Point;
+  value: string;
+}
+
+const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ image, target = 'source', title, legend, onLegendChange, onClose, onSave, onInpaint }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
-  
-  // Refs for drawing state
-  const isDrawing = useRef(false);
-  const isSelecting = useRef(false);
-  const isMoving = useRef(false);
-  const startCoords = useRef({ x: 0, y: 0 });
-  const snapshot = useRef<ImageData | null>(null);
-  const selectionRect = useRef<SelectionRect | null>(null);
-  const selectedImageData = useRef<ImageData | null>(null);
-  const moveStartOffset = useRef({ x: 0, y: 0 });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const colorInputRef = useRef<HTMLInputElement>(null);
+
+  // Refs for the in-progress pointer interaction
+  const interaction = useRef<Interaction | null>(null);
+  const preview = useRef<Annotation[] | null>(null);
+  // Client positions of the pointers currently pressed on the canvas, by pointer id.
+  const pointers = useRef(new Map<number, Point>());
+  const keepFocus = useRef(false);
+
+  // The view stays fitted to the viewport (also across resizes) until the user zooms or pans.
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+  const isFitted = useRef(true);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const scale = useRef(view.scale);
+  scale.current = view.scale;
 
   // Component state
-  const [drawingTool, setDrawingTool] = useState<DrawingTool>('pen');
+  const [drawingTool, setDrawingTool] = useState<DrawingTool>(target === 'result' ? 'mask' : 'pen');
   const [drawingColor, setDrawingColor] = useState<string>('#ff0000');
-  const [history, setHistory] = useState<ImageData[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  const [canvasPosition, setCanvasPosition] = useState({ top: 0, left: 0 });
+  const [strokeWidth, setStrokeWidth] = useState<number>(DEFAULT_STROKE_WIDTH);
+  const [opacity, setOpacity] = useState<number>(1);
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [fontSize, setFontSize] = useState<number>(DEFAULT_FONT_SIZE);
+  const [textEdit, setTextEdit] = useState<TextEdit | null>(null);
+  const discardTextEdit = useRef(false);
+  const [feather, setFeather] = useState<number>(8);
+  const [inpaintInstruction, setInpaintInstruction] = useState<string>('');
+  const [history, setHistory] = useState(() => createHistory({
+    base: { base64: image.base64!, mimeType: image.mimeType! },
+    annotations: image.annotations,
+    mask: [],
+    edits: [],
+  }));
+  const [showHistory, setShowHistory] = useState(false);
+  const [showLegend, setShowLegend] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const snapshot = useMemo(() => stateAt(history, history.position), [history]);
+  const { annotations, mask } = snapshot;
+  const hasLegacyAnnotations = target === 'source' && Boolean(image.annotatedBase64) && image.annotations.length === 0;
 
-  const saveState = useCallback(() => {
+  const commit = useCallback((command: EditorCommand, label: string, mergeKey?: string) => {
+    setHistory(prev => pushEntry(prev, { command, label, mergeKey }));
+  }, []);
+
+  // An inpainting job that finishes while the editor is open replaces the image it was opened with.
+  const receivedBase = useRef(image.base64);
+  useEffect(() => {
+    if (!image.base64 || !image.mimeType || image.base64 === receivedBase.current) return;
+    receivedBase.current = image.base64;
+    setHistory(prev => pushEntry(prev, {
+      command: { type: 'inpaint', base: { base64: image.base64!, mimeType: image.mimeType! }, instruction: 'Inpainted region' },
+      label: 'Inpainted region',
+    }));
+  }, [image.base64, image.mimeType]);
+
+  const redraw = useCallback(() => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
     if (!canvas || !ctx) return;
-    
-    const newHistory = history.slice(0, historyIndex + 1);
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    setHistory([...newHistory, imageData]);
-    setHistoryIndex(newHistory.length);
-  }, [history, historyIndex]);
 
-  const setupCanvas = useCallback(() => {
+    // Everything is drawn from vectors at the current zoom, so nothing is ever resampled.
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(dpr, 0, 0, dpr, view.x * dpr, view.y * dpr);
+
+    const pendingMask = interaction.current?.mode === 'mask' ? [...mask, interaction.current.draft] : mask;
+    if (pendingMask.length > 0) {
+      // Paint opaque, then fade as a whole so overlapping strokes don't darken.
+      ctx.save();
+      drawMaskStrokes(ctx, pendingMask, view.scale, '#ef4444');
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = MASK_PREVIEW_COLOR;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.restore();
+    }
+
+    // The label being edited is shown by the text box instead.
+    const visible = (preview.current ?? annotations).filter(a => a.id !== textEdit?.id);
+    drawAnnotations(ctx, visible, view.scale);
+    if (interaction.current?.mode === 'draw') {
+      drawAnnotation(ctx, interaction.current.draft, view.scale);
+    }
+
+    const selected = visible.find(a => a.id === selectedId);
+    if (selected) {
+      const b = getBounds(selected);
+      const pad = selected.lineWidth / 2 + 4 / view.scale;
+      ctx.save();
+      ctx.setLineDash([5, 5]);
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.lineWidth = 1;
+      ctx.strokeRect((b.x - pad) * view.scale, (b.y - pad) * view.scale, (b.width + pad * 2) * view.scale, (b.height + pad * 2) * view.scale);
+      ctx.restore();
+    }
+  }, [annotations, mask, selectedId, textEdit?.id, view]);
+
+  useEffect(() => {
+    redraw();
+  }, [redraw]);
+
+  const redrawRef = useRef(redraw);
+  redrawRef.current = redraw;
+
+  const getFitView = useCallback((): ViewTransform | null => {
     const img = imageRef.current;
+    const viewport = viewportRef.current;
+    if (!img || !viewport || !img.complete || img.naturalWidth === 0) return null;
+    const fitScale = Math.min(viewport.clientWidth / img.naturalWidth, viewport.clientHeight / img.naturalHeight);
+    return {
+      scale: fitScale,
+      x: (viewport.clientWidth - img.naturalWidth * fitScale) / 2,
+      y: (viewport.clientHeight - img.naturalHeight * fitScale) / 2,
+    };
+  }, []);
+
+  // The canvas always covers the viewport at device resolution; the image is positioned under it.
+  const setupCanvas = useCallback(() => {
     const canvas = canvasRef.current;
-    const container = canvas?.parentElement;
+    const viewport = viewportRef.current;
+    const img = imageRef.current;
+    const fit = getFitView();
+    if (!canvas || !viewport || !img || !fit) return;
 
-    if (!img || !canvas || !container || !img.complete || img.naturalWidth === 0) {
-        return;
+    setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewport.clientWidth * dpr);
+    canvas.height = Math.round(viewport.clientHeight * dpr);
+    if (isFitted.current) {
+      setView(fit);
     }
+    redrawRef.current();
+  }, [getFitView]);
 
-    const containerWidth = container.clientWidth;
-    const containerHeight = container.clientHeight;
-    const imageNaturalWidth = img.naturalWidth;
-    const imageNaturalHeight = img.naturalHeight;
+  const clampScale = useCallback((nextScale: number) => {
+    const fit = getFitView();
+    return fit ? Math.min(MAX_ZOOM, Math.max(Math.min(fit.scale, 1) / 2, nextScale)) : nextScale;
+  }, [getFitView]);
 
-    const imageAspectRatio = imageNaturalWidth / imageNaturalHeight;
-    const containerAspectRatio = containerWidth / containerHeight;
+  const zoomTo = useCallback((nextScale: number, focus?: Point) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    isFitted.current = false;
+    // Zoom around `focus` (viewport coordinates), by default the viewport centre.
+    const fx = focus?.x ?? viewport.clientWidth / 2;
+    const fy = focus?.y ?? viewport.clientHeight / 2;
+    setView(prev => {
+      const clamped = clampScale(nextScale);
+      const ratio = clamped / prev.scale;
+      return { scale: clamped, x: fx - (fx - prev.x) * ratio, y: fy - (fy - prev.y) * ratio };
+    });
+  }, [clampScale]);
 
-    let renderedWidth, renderedHeight, renderedTop, renderedLeft;
+  const fitToViewport = () => {
+    const fit = getFitView();
+    if (!fit) return;
+    isFitted.current = true;
+    setView(fit);
+  };
 
-    if (imageAspectRatio > containerAspectRatio) {
-        renderedWidth = containerWidth;
-        renderedHeight = containerWidth / imageAspectRatio;
-        renderedLeft = 0;
-        renderedTop = (containerHeight - renderedHeight) / 2;
-    } else {
-        renderedHeight = containerHeight;
-        renderedWidth = containerHeight * imageAspectRatio;
-        renderedLeft = (containerWidth - renderedWidth) / 2;
-        renderedTop = 0;
-    }
+  // Wheel zooms (trackpad pinches arrive as ctrl+wheel). React's wheel listeners are passive,
+  // so a native one is needed to keep the page from scrolling.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015));
+      zoomTo(scale.current * factor, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomTo]);
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    const lastKnownState = history[historyIndex];
-    
-    if (canvas.width !== renderedWidth || canvas.height !== renderedHeight) {
-        canvas.width = renderedWidth;
-        canvas.height = renderedHeight;
-        
-        if (lastKnownState) {
-            const tempCanvas = document.createElement('canvas');
-            tempCanvas.width = lastKnownState.width;
-            tempCanvas.height = lastKnownState.height;
-            const tempCtx = tempCanvas.getContext('2d');
-            if (tempCtx) {
-                tempCtx.putImageData(lastKnownState, 0, 0);
-                ctx.drawImage(tempCanvas, 0, 0, renderedWidth, renderedHeight);
-            }
-        }
-    }
-    
-    setCanvasPosition({ top: renderedTop, left: renderedLeft });
-    
-    if (history.length === 0 && canvas.width > 0) {
-         const initialImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-         setHistory([initialImageData]);
-         setHistoryIndex(0);
-    }
-  }, [history, historyIndex]);
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isTyping(e)) {
+        e.preventDefault();
+        setIsSpaceHeld(true);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
 
   useEffect(() => {
     const img = imageRef.current;
@@ -110,204 +288,630 @@ const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ image, onClose, onS
 
     if (img.complete) {
         setupCanvas();
-    } else {
-        img.addEventListener('load', setupCanvas);
     }
-    
+    img.addEventListener('load', setupCanvas);
+
     window.addEventListener('resize', setupCanvas);
-    
+
     return () => {
         img.removeEventListener('load', setupCanvas);
         window.removeEventListener('resize', setupCanvas);
     }
   }, [setupCanvas]);
 
-  const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>): { x: number; y: number } => {
+  const deleteSelected = useCallback(() => {
+    if (!selectedId) return;
+    commit({ type: 'remove', ids: [selectedId] }, 'Delete shape');
+    setSelectedId(null);
+  }, [selectedId, commit]);
+
+  const goToStep = useCallback((index: number) => {
+    setHistory(prev => jumpTo(prev, index));
+    setSelectedId(null);
+  }, []);
+
+  const handleUndo = () => goToStep(history.position - 1);
+  const handleRedo = () => goToStep(history.position + 1);
+
+  // Converts a pointer position to the image's natural pixel coordinates.
+  const getImagePos = (e: { clientX: number; clientY: number }): Point => {
     const rect = canvasRef.current!.getBoundingClientRect();
     return {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
+      x: (e.clientX - rect.left - view.x) / view.scale,
+      y: (e.clientY - rect.top - view.y) / view.scale,
     };
   };
 
-  const handleUndo = () => {
-    if (historyIndex <= 0) return;
-    
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!ctx) return;
-    
-    const newIndex = historyIndex - 1;
-    setHistoryIndex(newIndex);
-    const prevState = history[newIndex];
-    ctx.putImageData(prevState, 0, 0);
-    selectionRect.current = null;
+  const selectedAnnotation = annotations.find(a => a.id === selectedId);
+
+  const handleFontSizeChange = (size: number) => {
+    setFontSize(size);
+    if (selectedAnnotation?.type === 'text') {
+      commit({ type: 'update', annotation: { ...selectedAnnotation, fontSize: size / scale.current } }, 'Resize label', `font-size:${selectedAnnotation.id}`);
+    }
   };
 
-  const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!ctx) return;
-    const pos = getMousePos(e);
-    startCoords.current = pos;
-    snapshot.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const startTextEdit = (position: Point, existing?: Annotation) => {
+    discardTextEdit.current = false;
+    if (existing?.type === 'text') {
+      setSelectedId(existing.id);
+      setFontSize(Math.round(existing.fontSize * scale.current));
+      setTextEdit({ id: existing.id, position: existing.position, value: existing.text });
+    } else {
+      setSelectedId(null);
+      setTextEdit({ id: null, position, value: '' });
+    }
+  };
+
+  // Committing an empty label deletes it. Escape leaves everything as it was.
+  const finishTextEdit = () => {
+    const edit = textEdit;
+    setTextEdit(null);
+    if (!edit || discardTextEdit.current) return;
+    const text = edit.value.trim();
+    const existing = annotations.find(a => a.id === edit.id);
+    if (existing?.type === 'text') {
+      if (!text) {
+        commit({ type: 'remove', ids: [existing.id] }, 'Delete label');
+        setSelectedId(null);
+      } else if (text !== existing.text) {
+        commit({ type: 'update', annotation: { ...existing, text } }, `Edit label "${text}"`);
+      }
+    } else if (text) {
+      commit({
+        type: 'add',
+        annotation: {
+          id: crypto.randomUUID(),
+          type: 'text',
+          color: drawingColor,
+          lineWidth: strokeWidth / scale.current,
+          opacity,
+          position: edit.position,
+          text,
+          fontSize: fontSize / scale.current,
+        },
+      }, `Label "${text}"`);
+    }
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (drawingTool !== 'move') return;
+    const hit = findAnnotationAt(annotations, getImagePos(e), HIT_TOLERANCE / scale.current);
+    if (hit?.type === 'text') startTextEdit(hit.position, hit);
+  };
+
+  const restyleSelected = (changes: Partial<Pick<Annotation, 'color' | 'lineWidth' | 'opacity'>>, label: string) => {
+    if (drawingTool === 'move' && selectedAnnotation) {
+      const [property] = Object.keys(changes);
+      commit({ type: 'update', annotation: { ...selectedAnnotation, ...changes } }, label, `${property}:${selectedAnnotation.id}`);
+    }
+  };
+
+  const handleColorChange = (color: string) => {
+    setDrawingColor(color);
+    restyleSelected({ color }, 'Recolor shape');
+  };
+
+  const handleStrokeWidthChange = (width: number) => {
+    setStrokeWidth(width);
+    restyleSelected({ lineWidth: width / scale.current }, 'Change line width');
+  };
+
+  const handleOpacityChange = (value: number) => {
+    setOpacity(value);
+    restyleSelected({ opacity: value }, 'Change opacity');
+  };
+
+  // Distance between the two pressed pointers and their midpoint in viewport coordinates.
+  const getGesture = () => {
+    const [a, b] = [...pointers.current.values()];
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      midpoint: { x: (a.x + b.x) / 2 - rect.left, y: (a.y + b.y) / 2 - rect.top },
+    };
+  };
+
+  // Drops whatever the pointer interaction was about to commit.
+  const discardInteraction = () => {
+    interaction.current = null;
+    preview.current = null;
+    redraw();
+  };
+
+  const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    keepFocus.current = false;
+    if (e.pointerType === 'mouse' && e.button !== 0 && e.button !== 1) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // A second finger turns whatever the first one started into a pan/zoom gesture.
+    if (pointers.current.size === 2) {
+        discardInteraction();
+        interaction.current = { mode: 'pinch', ...getGesture(), origin: view };
+        return;
+    }
+    if (pointers.current.size > 2) return;
+
+    // Space-drag or the middle button pans with any tool.
+    if (isSpaceHeld || e.button === 1) {
+        e.preventDefault();
+        interaction.current = { mode: 'pan', start: { x: e.clientX, y: e.clientY }, origin: view };
+        return;
+    }
+    const pos = getImagePos(e);
+    const tolerance = HIT_TOLERANCE / scale.current;
+
+    if (drawingTool === 'mask') {
+        interaction.current = { mode: 'mask', draft: { points: [pos], size: brushSize / scale.current } };
+        redraw();
+        return;
+    }
 
     if (drawingTool === 'move') {
-        if (selectionRect.current && pos.x > selectionRect.current.x && pos.x < selectionRect.current.x + selectionRect.current.width && pos.y > selectionRect.current.y && pos.y < selectionRect.current.y + selectionRect.current.height) {
-            isMoving.current = true;
-            selectedImageData.current = ctx.getImageData(selectionRect.current.x, selectionRect.current.y, selectionRect.current.width, selectionRect.current.height);
-            ctx.clearRect(selectionRect.current.x, selectionRect.current.y, selectionRect.current.width, selectionRect.current.height);
-            moveStartOffset.current = { x: pos.x - selectionRect.current.x, y: pos.y - selectionRect.current.y };
-        } else {
-            isSelecting.current = true;
-            selectionRect.current = null;
-        }
-    } else {
-        isDrawing.current = true;
-        ctx.beginPath();
-        ctx.lineWidth = drawingTool === 'eraser' ? 20 : 5;
-        ctx.strokeStyle = drawingColor;
-        ctx.lineCap = "round";
-        ctx.lineJoin = "round";
-        ctx.globalCompositeOperation = drawingTool === 'eraser' ? 'destination-out' : 'source-over';
-        if(drawingTool === 'pen' || drawingTool === 'eraser') {
-            ctx.moveTo(pos.x, pos.y);
+        const hit = findAnnotationAt(annotations, pos, tolerance);
+        setSelectedId(hit?.id ?? null);
+        if (hit?.type === 'text') setFontSize(Math.round(hit.fontSize * scale.current));
+        if (hit && hit.type !== 'text') setStrokeWidth(Math.round(hit.lineWidth * scale.current));
+        if (hit) setOpacity(hit.opacity ?? 1);
+        if (hit) {
+            interaction.current = { mode: 'move', start: pos, origin: hit };
         }
+        return;
+    }
+
+    if (drawingTool === 'text') {
+        // A click while a label is open only commits it, through the text box losing focus.
+        if (textEdit) return;
+        // Otherwise the mousedown that follows would move focus away from the text box about to open.
+        keepFocus.current = true;
+        const hit = findAnnotationAt(annotations, pos, tolerance);
+        startTextEdit(pos, hit);
+        return;
+    }
+
+    if (drawingTool === 'eraser') {
+        interaction.current = { mode: 'erase' };
+        preview.current = annotations.filter(a => !hitTest(a, pos, eraserTolerance()));
+        redraw();
+        return;
     }
+
+    const base = { id: crypto.randomUUID(), color: drawingColor, lineWidth: strokeWidth / scale.current, opacity };
+    const draft: Annotation =
+        drawingTool === 'pen' ? { ...base, type: 'stroke', points: [pos], ...(e.pointerType === 'pen' ? { pressures: [e.pressure] } : {}) }
+        : drawingTool === 'circle' ? { ...base, type: 'circle', center: pos, radius: 0 }
+        : drawingTool === 'arrow' ? { ...base, type: 'arrow', start: pos, end: pos }
+        : { ...base, type: 'box', x: pos.x, y: pos.y, width: 0, height: 0 };
+    interaction.current = { mode: 'draw', draft };
+    setSelectedId(null);
   };
 
-  const draw = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx || !snapshot.current) return;
-    const currentPos = getMousePos(e);
-
-    if (isDrawing.current) {
-        ctx.putImageData(snapshot.current, 0, 0);
-        if (drawingTool === 'pen' || drawingTool === 'eraser') {
-            ctx.lineTo(currentPos.x, currentPos.y);
-            ctx.stroke();
-        } else if (drawingTool === 'circle') {
-            ctx.beginPath();
-            const radius = Math.sqrt(Math.pow(currentPos.x - startCoords.current.x, 2) + Math.pow(currentPos.y - startCoords.current.y, 2));
-            ctx.arc(startCoords.current.x, startCoords.current.y, radius, 0, 2 * Math.PI);
-            ctx.stroke();
-        } else if (drawingTool === 'box') {
-            ctx.strokeRect(startCoords.current.x, startCoords.current.y, currentPos.x - startCoords.current.x, currentPos.y - startCoords.current.y);
+  // The eraser removes every shape within half its size of the pointer.
+  const eraserTolerance = () => Math.max(HIT_TOLERANCE, strokeWidth / 2) / scale.current;
+
+  const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const current = interaction.current;
+    if (!current) return;
+    if (current.mode === 'pinch') {
+        if (pointers.current.size < 2) return;
+        const { distance, midpoint } = getGesture();
+        const { origin } = current;
+        const nextScale = clampScale(origin.scale * distance / current.distance);
+        // Keep the image point that was under the fingers' midpoint under it.
+        const anchorX = (current.midpoint.x - origin.x) / origin.scale;
+        const anchorY = (current.midpoint.y - origin.y) / origin.scale;
+        isFitted.current = false;
+        setView({ scale: nextScale, x: midpoint.x - anchorX * nextScale, y: midpoint.y - anchorY * nextScale });
+        return;
+    }
+    if (current.mode === 'pan') {
+        isFitted.current = false;
+        setView({ ...current.origin, x: current.origin.x + e.clientX - current.start.x, y: current.origin.y + e.clientY - current.start.y });
+        return;
+    }
+    const pos = getImagePos(e);
+    // Freehand strokes use every sample the browser coalesced into this event, which keeps
+    // fast stylus strokes smooth.
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const samples = coalesced.length > 0 ? coalesced : [e.nativeEvent];
+
+    if (current.mode === 'mask') {
+        current.draft.points = [...current.draft.points, ...samples.map(getImagePos)];
+    } else if (current.mode === 'draw') {
+        const draft = current.draft;
+        if (draft.type === 'stroke') {
+            draft.points = [...draft.points, ...samples.map(getImagePos)];
+            if (draft.pressures) draft.pressures = [...draft.pressures, ...samples.map(s => s.pressure)];
+        } else if (draft.type === 'circle') {
+            draft.radius = Math.hypot(pos.x - draft.center.x, pos.y - draft.center.y);
+        } else if (draft.type === 'arrow') {
+            draft.end = pos;
+        } else if (draft.type === 'box') {
+            draft.width = pos.x - draft.x;
+            draft.height = pos.y - draft.y;
         }
-    } else if (isSelecting.current) {
-        ctx.putImageData(snapshot.current, 0, 0);
-        ctx.setLineDash([5, 5]);
-        ctx.strokeStyle = '#FFFFFF';
-        ctx.lineWidth = 1;
-        ctx.strokeRect(startCoords.current.x, startCoords.current.y, currentPos.x - startCoords.current.x, currentPos.y - startCoords.current.y);
-        ctx.setLineDash([]);
-    } else if (isMoving.current && selectedImageData.current) {
-        ctx.putImageData(snapshot.current, 0, 0);
-        ctx.putImageData(selectedImageData.current, currentPos.x - moveStartOffset.current.x, currentPos.y - moveStartOffset.current.y);
+    } else if (current.mode === 'move') {
+        const moved = translateAnnotation(current.origin, pos.x - current.start.x, pos.y - current.start.y);
+        preview.current = annotations.map(a => a.id === moved.id ? moved : a);
+    } else {
+        const tolerance = eraserTolerance();
+        preview.current = (preview.current ?? annotations).filter(a => !hitTest(a, pos, tolerance));
     }
+    redraw();
   };
 
-  const stopDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx) return;
-
-    if (isDrawing.current) {
-        isDrawing.current = false;
-        ctx.globalCompositeOperation = 'source-over';
-        saveState();
-    } else if (isSelecting.current) {
-        isSelecting.current = false;
-        const currentPos = getMousePos(e);
-        selectionRect.current = {
-            x: Math.min(startCoords.current.x, currentPos.x),
-            y: Math.min(startCoords.current.y, currentPos.y),
-            width: Math.abs(currentPos.x - startCoords.current.x),
-            height: Math.abs(currentPos.y - startCoords.current.y),
-        };
-    } else if (isMoving.current) {
-        isMoving.current = false;
-        saveState();
+  const stopDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    const current = interaction.current;
+    if (!current) return;
+    // A pinch ends only when the last finger lifts, so the remaining one doesn't start drawing.
+    if (current.mode === 'pinch') {
+        if (pointers.current.size === 0) interaction.current = null;
+        return;
+    }
+
+    if (current.mode === 'mask') {
+        commit({ type: 'mask', stroke: current.draft }, 'Mask stroke');
+    } else if (current.mode === 'draw') {
+        const draft = current.draft;
+        const isEmpty =
+            (draft.type === 'circle' && draft.radius === 0) ||
+            (draft.type === 'box' && (draft.width === 0 || draft.height === 0)) ||
+            (draft.type === 'arrow' && draft.start.x === draft.end.x && draft.start.y === draft.end.y);
+        if (!isEmpty) {
+            commit({ type: 'add', annotation: draft }, shapeLabels[draft.type]);
+        }
+    } else if (current.mode === 'move' && preview.current) {
+        const moved = preview.current.find(a => a.id === current.origin.id);
+        if (moved) commit({ type: 'update', annotation: moved }, 'Move shape');
+    } else if (current.mode === 'erase' && preview.current) {
+        const kept = new Set(preview.current.map(a => a.id));
+        const ids = annotations.filter(a => !kept.has(a.id)).map(a => a.id);
+        // An eraser drag that touched nothing leaves no history step.
+        if (ids.length > 0) commit({ type: 'remove', ids }, ids.length === 1 ? 'Erase shape' : `Erase ${ids.length} shapes`);
     }
+
+    interaction.current = null;
+    preview.current = null;
+    redraw();
+  };
+
+  // The pass runs in the job queue, so the mask is cleared and the editor stays usable meanwhile.
+  const handleInpaint = () => {
+    const img = imageRef.current;
+    const instruction = inpaintInstruction.trim();
+    if (!img || mask.length === 0 || !instruction) return;
+
+    onInpaint({
+      base: snapshot.base,
+      mask,
+      maskImage: renderMaskImage(mask, img.naturalWidth, img.naturalHeight),
+      // Feather is chosen in screen pixels, like the brush size.
+      feather: feather / scale.current,
+      instruction,
+    });
+    commit({ type: 'clear-mask' }, `Queue inpaint "${instruction}"`);
+    setInpaintInstruction('');
   };
-  
-  const handleSave = () => {
-    const editorCanvas = canvasRef.current;
-    const baseImg = imageRef.current;
-    if (!editorCanvas || !baseImg || !image.mimeType) return;
-    
-    const finalCanvas = document.createElement('canvas');
-    finalCanvas.width = baseImg.naturalWidth;
-    finalCanvas.height = baseImg.naturalHeight;
-    const finalCtx = finalCanvas.getContext('2d');
-    
-    if (!finalCtx) return;
-    
-    // 1. Draw original full-resolution image
-    finalCtx.drawImage(baseImg, 0, 0);
-    
-    // 2. Draw the annotation canvas on top, scaling it to fit
-    finalCtx.drawImage(editorCanvas, 0, 0, finalCanvas.width, finalCanvas.height);
-    
-    const newBase64 = finalCanvas.toDataURL(image.mimeType).split(',')[1];
-    onSave(image.id, newBase64);
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const { base, edits } = snapshot;
+      const layers = await renderAnnotationLayers(base.base64, base.mimeType, annotations);
+      const img = imageRef.current;
+      const annotationHints = img ? collectAnnotationHints(annotations, img.naturalWidth, img.naturalHeight) : [];
+      onSave(image.id, { annotations, annotationHints, ...layers, base64: base.base64, mimeType: base.mimeType, edits });
+    } catch (err) {
+      console.error(err);
+      setSaveError(err instanceof Error ? `Could not save: ${err.message}` : 'Could not save the annotations.');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  const tools: { name: DrawingTool, icon: React.FC<{ className?: string }> }[] = [
+  const allTools: { name: DrawingTool, icon: React.FC<{ className?: string }> }[] = [
     { name: 'pen', icon: PenIcon },
     { name: 'circle', icon: CircleIcon },
     { name: 'box', icon: SquareIcon },
+    { name: 'arrow', icon: ArrowIcon },
+    { name: 'text', icon: TextIcon },
     { name: 'eraser', icon: EraserIcon },
     { name: 'move', icon: MoveIcon },
+    { name: 'mask', icon: BrushIcon },
   ];
-  
-  const imageSrc = image.annotatedBase64 
-    ? `data:${image.mimeType};base64,${image.annotatedBase64}`
-    : `data:${image.mimeType};base64,${image.base64}`;
+  const tools = target === 'result' ? allTools.filter(t => t.name === 'mask') : allTools;
+
+  const toolNames: Record<DrawingTool, string> = {
+    pen: 'Pen',
+    circle: 'Circle',
+    box: 'Box',
+    arrow: 'Arrow',
+    text: 'Text label',
+    eraser: 'Eraser',
+    move: 'Select and move',
+    mask: 'Inpainting mask',
+  };
+
+  const toolTitles: Record<DrawingTool, string> = {
+    pen: 'Pen',
+    circle: 'Circle',
+    box: 'Box',
+    arrow: 'Arrow',
+    text: 'Text label (click a label to edit it)',
+    eraser: 'Eraser (removes whole shapes)',
+    move: 'Select, move and restyle',
+    mask: 'Inpainting mask',
+  };
+
+  useShortcuts([
+    { id: 'close-dialog', label: 'Close editor without saving', group: 'Editor', run: onClose, allowInInputs: true },
+    { id: 'editor-save', label: 'Save', group: 'Editor', run: handleSave, enabled: Boolean(onSave) && !isSaving, allowInInputs: true },
+    ...tools.map(({ name }): ShortcutAction => ({
+      id: `editor-tool-${name}`,
+      label: `${toolNames[name]} tool`,
+      group: 'Editor',
+      run: () => setDrawingTool(name),
+    })),
+    ...(target === 'source' ? [{ id: 'editor-pick-color', label: 'Pick color', group: 'Editor', run: () => colorInputRef.current?.click() }] : []),
+    { id: 'editor-undo', label: 'Undo', group: 'Editor', run: handleUndo, enabled: history.position > 0 },
+    { id: 'editor-redo', label: 'Redo', group: 'Editor', run: handleRedo, enabled: history.position < history.entries.length },
+    { id: 'editor-delete', label: 'Delete selected shape', group: 'Editor', run: deleteSelected, enabled: Boolean(selectedId) },
+    { id: 'editor-history', label: showHistory ? 'Hide history' : 'Show history', group: 'Editor', run: () => setShowHistory(prev => !prev) },
+    ...(target === 'source' ? [{ id: 'editor-legend', label: showLegend ? 'Hide color legend' : 'Show color legend', group: 'Editor', run: () => setShowLegend(prev => !prev) }] : []),
+    { id: 'editor-zoom-in', label: 'Zoom in', group: 'Editor', run: () => zoomTo(view.scale * 1.5) },
+    { id: 'editor-zoom-out', label: 'Zoom out', group: 'Editor', run: () => zoomTo(view.scale / 1.5) },
+    { id: 'editor-zoom-fit', label: 'Zoom to fit', group: 'Editor', run: fitToViewport },
+    { id: 'editor-zoom-actual', label: 'Zoom to 100%', group: 'Editor', run: () => zoomTo(1) },
+  ], true);
+
+  const showStrokeWidth = ['pen', 'circle', 'box', 'arrow', 'eraser'].includes(drawingTool)
+    || (drawingTool === 'move' && selectedAnnotation !== undefined && selectedAnnotation.type !== 'text');
+  const showOpacity = ['pen', 'circle', 'box', 'arrow', 'text'].includes(drawingTool)
+    || (drawingTool === 'move' && selectedAnnotation !== undefined);
+
+  const currentMeaning = findLegendEntry(legend, drawingColor)?.meaning.trim();
+
+  const updateLegendEntry = (index: number, changes: Partial<LegendEntry>) => {
+    onLegendChange(legend.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  const imageSrc = `data:${snapshot.base.mimeType};base64,${snapshot.base.base64}`;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
       <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl h-[90vh] flex flex-col">
         <div className="flex justify-between items-center p-4 border-b border-gray-700">
-            <h2 className="text-xl font-bold text-white">Edit Image {image.id}</h2>
+            <h2 className="text-xl font-bold text-white">{title}</h2>
             <button onClick={onClose} className="text-gray-400 hover:text-white">
                 <CloseIcon />
             </button>
         </div>
-        <div className="flex-grow p-4 relative flex items-center justify-center min-h-0">
-            <div className="relative w-full h-full">
+        {hasLegacyAnnotations && (
+            <div className="px-4 py-2 text-sm text-yellow-200 bg-yellow-900 bg-opacity-40 border-b border-gray-700">
+                This image has annotations from an older version that were flattened into the pixels and can't be edited. Saving will replace them.
+            </div>
+        )}
+        <div className="flex-grow flex min-h-0">
+        <div className="flex-grow p-4 relative flex items-center justify-center min-w-0">
+            <div ref={viewportRef} className="relative w-full h-full overflow-hidden">
                 <img
                     ref={imageRef}
                     src={imageSrc}
-                    alt={`Editing image ${image.id}`}
-                    className="w-full h-full object-contain pointer-events-none"
+                    alt={title}
+                    className="absolute max-w-none pointer-events-none select-none"
+                    style={imageSize.width > 0 ? {
+                        left: view.x,
+                        top: view.y,
+                        width: imageSize.width * view.scale,
+                        height: imageSize.height * view.scale,
+                    } : { visibility: 'hidden' }}
                     crossOrigin="anonymous"
                 />
                 <canvas
                     ref={canvasRef}
-                    style={{ top: canvasPosition.top, left: canvasPosition.left }}
-                    className={`absolute ${drawingTool === 'move' ? 'cursor-move' : 'cursor-crosshair'}`}
-                    onMouseDown={startDrawing}
-                    onMouseMove={draw}
-                    onMouseUp={stopDrawing}
-                    onMouseLeave={stopDrawing}
+                    className={`absolute inset-0 w-full h-full touch-none ${
+                        isSpaceHeld ? 'cursor-grab'
+                        : drawingTool === 'move' ? 'cursor-move'
+                        : drawingTool === 'text' ? 'cursor-text'
+                        : 'cursor-crosshair'
+                    }`}
+                    onPointerDown={startDrawing}
+                    onPointerMove={draw}
+                    onPointerUp={stopDrawing}
+                    onPointerCancel={e => {
+                        pointers.current.delete(e.pointerId);
+                        discardInteraction();
+                    }}
+                    onMouseDown={e => {
+                        if (keepFocus.current) e.preventDefault();
+                        keepFocus.current = false;
+                    }}
+                    onDoubleClick={handleDoubleClick}
                 />
+                {textEdit && (
+                    <input
+                        autoFocus
+                        value={textEdit.value}
+                        onChange={e => setTextEdit({ ...textEdit, value: e.target.value })}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') {
+                                // Keeps the shortcut listener from also closing the editor.
+                                e.preventDefault();
+                                discardTextEdit.current = true;
+                                e.currentTarget.blur();
+                            }
+                        }}
+                        onBlur={finishTextEdit}
+                        placeholder="Type a label"
+                        className="absolute bg-transparent border border-dashed border-white p-0 focus:ring-0 focus:outline-none"
+                        style={{
+                            top: view.y + textEdit.position.y * view.scale,
+                            left: view.x + textEdit.position.x * view.scale,
+                            font: annotationFont(fontSize),
+                            color: annotations.find(a => a.id === textEdit.id)?.color ?? drawingColor,
+                            minWidth: '8rem',
+                        }}
+                    />
+                )}
+            </div>
+        </div>
+        {showLegend && (
+            <div className="w-64 flex-shrink-0 overflow-y-auto border-l border-gray-700 p-3 text-sm space-y-2">
+                <h3 className="font-semibold text-gray-200">Color legend</h3>
+                <p className="text-xs text-gray-400">
+                    Shared by all images. The meanings of the colors drawn on this image are added to the prompt.
+                </p>
+                {legend.map((entry, index) => (
+                    <div key={index} className={`flex items-center gap-2 p-1 rounded ${entry.color.toLowerCase() === drawingColor.toLowerCase() ? 'bg-gray-700' : ''}`}>
+                        <input
+                            type="color"
+                            value={entry.color}
+                            onChange={e => updateLegendEntry(index, { color: e.target.value })}
+                            className="w-7 h-7 p-0.5 flex-shrink-0 bg-transparent border-none rounded cursor-pointer"
+                            aria-label="Legend color"
+                        />
+                        <input
+                            type="text"
+                            value={entry.meaning}
+                            onChange={e => updateLegendEntry(index, { meaning: e.target.value })}
+                            placeholder="What this color means"
+                            className="flex-grow min-w-0 px-2 py-1 bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <button onClick={() => handleColorChange(entry.color)} className="text-xs text-blue-400 hover:text-blue-300" title="Draw with this color">
+                            Use
+                        </button>
+                        <button onClick={() => onLegendChange(legend.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-400" aria-label="Remove legend entry">
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                {!findLegendEntry(legend, drawingColor) && (
+                    <button onClick={() => onLegendChange([...legend, { color: drawingColor, meaning: '' }])} className="text-blue-400 hover:text-blue-300">
+                        + Add the current color
+                    </button>
+                )}
             </div>
+        )}
+        {showHistory && (
+            <ol className="w-56 flex-shrink-0 overflow-y-auto border-l border-gray-700 p-2 text-sm" aria-label="Edit history">
+                {['Original', ...history.entries.map(e => e.label)].map((label, index) => (
+                    <li key={index}>
+                        <button
+                            onClick={() => goToStep(index)}
+                            className={`w-full text-left truncate px-2 py-1 rounded ${
+                                index === history.position ? 'bg-blue-600 text-white'
+                                : index > history.position ? 'text-gray-500 hover:bg-gray-700'
+                                : 'text-gray-300 hover:bg-gray-700'
+                            }`}
+                            title={label}
+                        >
+                            {label}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        )}
         </div>
+        {drawingTool === 'mask' && (
+            <div className="px-4 pt-3 border-t border-gray-700 flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                <label className="flex items-center gap-2">
+                    Brush
+                    <input type="range" min={5} max={150} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} />
+                    <span className="w-10 text-gray-400">{brushSize}px</span>
+                </label>
+                <label className="flex items-center gap-2">
+                    Feather
+                    <input type="range" min={0} max={50} value={feather} onChange={e => setFeather(Number(e.target.value))} />
+                    <span className="w-10 text-gray-400">{feather}px</span>
+                </label>
+                <input
+                    type="text"
+                    value={inpaintInstruction}
+                    onChange={e => setInpaintInstruction(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') handleInpaint(); }}
+                    placeholder="What should the masked area become? e.g. 'a potted fern'"
+                    className="flex-grow min-w-[16rem] bg-gray-700 border-gray-600 rounded-md text-gray-200 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button onClick={() => commit({ type: 'clear-mask' }, 'Clear mask')} disabled={mask.length === 0} className="px-3 py-2 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Clear mask
+                </button>
+                <button onClick={handleInpaint} disabled={mask.length === 0 || !inpaintInstruction.trim()} className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-white font-semibold rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed">
+                    <SparklesIcon className="w-4 h-4" />
+                    Inpaint region
+                </button>
+            </div>
+        )}
         <div className="p-4 border-t border-gray-700 flex items-center justify-between">
-            <div className="flex items-center gap-1.5">
+            <div className="flex flex-wrap items-center gap-1.5">
                 {tools.map(({ name, icon: Icon }) => (
-                    <button key={name} onClick={() => setDrawingTool(name)} className={`p-2 rounded-md ${drawingTool === name ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`} title={`Select ${name} tool`}>
+                    <button key={name} onClick={() => setDrawingTool(name)} className={`p-2 rounded-md ${drawingTool === name ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`} title={toolTitles[name]}>
                         <Icon className="w-5 h-5" />
                     </button>
                 ))}
-                <input type="color" value={drawingColor} onChange={e => setDrawingColor(e.target.value)} className="w-9 h-9 p-0.5 bg-transparent border-none rounded-md cursor-pointer" title="Select color"/>
-                <button onClick={handleUndo} disabled={historyIndex <= 0} className="p-2 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed" title="Undo">
+                {(drawingTool === 'text' || selectedAnnotation?.type === 'text') && (
+                    <label className="flex items-center gap-2 ml-2 text-sm text-gray-300" title="Label size">
+                        <TextIcon className="w-4 h-4" />
+                        <input type="range" min={12} max={96} value={fontSize} onChange={e => handleFontSizeChange(Number(e.target.value))} />
+                    </label>
+                )}
+                {showStrokeWidth && (
+                    <label className="flex items-center gap-2 ml-2 text-sm text-gray-300" title={drawingTool === 'eraser' ? 'Eraser size' : 'Line width (a stylus draws thinner with less pressure)'}>
+                        Size
+                        <input type="range" min={1} max={MAX_STROKE_WIDTH} value={strokeWidth} onChange={e => handleStrokeWidthChange(Number(e.target.value))} className="w-24" />
+                    </label>
+                )}
+                {showOpacity && (
+                    <label className="flex items-center gap-2 ml-2 text-sm text-gray-300" title="Opacity">
+                        Opacity
+                        <input type="range" min={10} max={100} step={5} value={Math.round(opacity * 100)} onChange={e => handleOpacityChange(Number(e.target.value) / 100)} className="w-24" />
+                    </label>
+                )}
+                {target === 'source' && (
+                    <>
+                        <input ref={colorInputRef} type="color" value={drawingColor} onChange={e => handleColorChange(e.target.value)} className="w-9 h-9 p-0.5 bg-transparent border-none rounded-md cursor-pointer" title={`${selectedId ? "Recolor selected shape" : "Select color"}${currentMeaning ? ` (${currentMeaning})` : ''}`}/>
+                        {currentMeaning && <span className="max-w-[8rem] truncate text-xs text-gray-400">{currentMeaning}</span>}
+                    </>
+                )}
+                <button onClick={handleUndo} disabled={history.position <= 0} className="p-2 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed" title="Undo (Ctrl+Z)">
                     <UndoIcon className="w-5 h-5" />
                 </button>
+                <button onClick={handleRedo} disabled={history.position >= history.entries.length} className="p-2 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed" title="Redo (Ctrl+Shift+Z)">
+                    <RedoIcon className="w-5 h-5" />
+                </button>
+                {target === 'source' && (
+                    <button onClick={() => setShowLegend(!showLegend)} className={`px-2 py-2 text-sm rounded-md ${showLegend ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`} title="What each color means">
+                        Legend
+                    </button>
+                )}
+                <button onClick={() => setShowHistory(!showHistory)} className={`p-2 rounded-md ${showHistory ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`} title="History">
+                    <HistoryIcon className="w-5 h-5" />
+                </button>
+                <div className="flex items-center gap-1 ml-2 text-sm text-gray-300" title="Scroll or pinch to zoom, hold Space and drag to pan">
+                    <button onClick={() => zoomTo(view.scale / 1.5)} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600" aria-label="Zoom out">−</button>
+                    <span className="w-12 text-center">{Math.round(view.scale * 100)}%</span>
+                    <button onClick={() => zoomTo(view.scale * 1.5)} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600" aria-label="Zoom in">+</button>
+                    <button onClick={fitToViewport} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600">Fit</button>
+                    <button onClick={() => zoomTo(1)} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600">100%</button>
+                </div>
+                {target === 'source' && (
+                    <button onClick={deleteSelected} disabled={!selectedId} className="p-2 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed" title="Delete selected shape">
+                        <TrashIcon className="w-5 h-5" />
+                    </button>
+                )}
             </div>
-            <div>
-                <button onClick={onClose} className="px-6 py-2 text-gray-300 font-semibold rounded-md hover:bg-gray-700 mr-2">Cancel</button>
-                <button onClick={handleSave} className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700">Save</button>
+            <div className="flex items-center">
+                {saveError && <span className="text-sm text-red-300 mr-4">{saveError}</span>}
+                <button onClick={onClose} className="px-6 py-2 text-gray-300 font-semibold rounded-md hover:bg-gray-700 mr-2">{onSave ? 'Cancel' : 'Close'}</button>
+                {onSave && (
+                    <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50">Save</button>
+                )}
             </div>
         </div>
       </div>
@@ -1,21 +1,36 @@
-import React, { useRef } from 'react';
-import type { UploadedImage } from '../types';
-import { UploadIcon, EditIcon, TrashIcon } from './icons';
+import React, { useRef, useState } from 'react';
+import type { ImageRole, UploadedImage } from '../types';
+import { IMAGE_ROLES, MAX_CAPTION_LENGTH } from '../constants';
+import { base64ByteLength, formatBytes } from '../utils/fileUtils';
+import { UploadIcon, EditIcon, TrashIcon, CloseIcon } from './icons';
+
+export type SlotDetails = Partial<Pick<UploadedImage, 'role' | 'caption'>>;
 
 interface ImageSlotProps {
   image: UploadedImage;
-  onImageChange: (id: number, file: File) => void;
+  // "Image N", by the slot's position.
+  label: string;
+  canRemoveSlot: boolean;
+  // Several files fill this slot and then the next empty ones.
+  onFilesAdded: (id: number, files: File[]) => void;
+  // A drop or paste onto this slot, read by the parent while the event is still live.
+  onTransfer: (id: number, data: DataTransfer) => void;
   onEdit: (id: number) => void;
   onImageRemove: (id: number) => void;
+  onDetailsChange: (id: number, details: SlotDetails) => void;
+  onSlotRemove: (id: number) => void;
 }
 
-const ImageSlot: React.FC<ImageSlotProps> = ({ image, onImageChange, onEdit, onImageRemove }) => {
+const ImageSlot: React.FC<ImageSlotProps> = ({ image, label, canRemoveSlot, onFilesAdded, onTransfer, onEdit, onImageRemove, onDetailsChange, onSlotRemove }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      onImageChange(image.id, event.target.files[0]);
+    if (event.target.files && event.target.files.length > 0) {
+      onFilesAdded(image.id, Array.from(event.target.files));
     }
+    // Allows picking the same file again after removing it.
+    event.target.value = '';
   };
 
   const handleClick = () => {
@@ -26,13 +41,19 @@ const ImageSlot: React.FC<ImageSlotProps> = ({ image, onImageChange, onEdit, onI
 
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault(); event.stopPropagation();
-    if (event.dataTransfer.files && event.dataTransfer.files[0]) {
-      onImageChange(image.id, event.dataTransfer.files[0]);
-    }
+    setIsDragOver(false);
+    onTransfer(image.id, event.dataTransfer);
   };
   
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault(); event.stopPropagation();
+    setIsDragOver(true);
+  };
+
+  // Pasting while the slot has focus (click it or tab to it) puts the image into this slot.
+  const handlePaste = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    event.preventDefault(); event.stopPropagation();
+    onTransfer(image.id, event.clipboardData);
   };
 
   const displayImageSrc = image.annotatedBase64 
@@ -41,49 +62,100 @@ const ImageSlot: React.FC<ImageSlotProps> = ({ image, onImageChange, onEdit, onI
     ? `data:${image.mimeType};base64,${image.base64}`
     : null;
 
+  const ingest = image.ingest;
+  const sizeDetails = ingest && [
+    `Original: ${ingest.originalName}, ${ingest.originalWidth}×${ingest.originalHeight}, ${formatBytes(ingest.originalBytes)} (${ingest.originalType})`,
+    ingest.resized ? 'Downscaled to fit the upload limits.' : null,
+    ingest.converted ? `Converted to ${image.mimeType}.` : null,
+    'Location and camera metadata removed.',
+  ].filter(Boolean).join('\n');
+
   return (
-    <div className="w-full aspect-square relative rounded-lg bg-gray-800 border-2 border-dashed border-gray-600 flex flex-col items-center justify-center text-gray-400 hover:border-blue-500 hover:text-blue-400 transition-all duration-300 overflow-hidden group"
-      onDrop={handleDrop} onDragOver={handleDragOver}>
+    <div className="flex flex-col gap-2">
+      <div className={`w-full aspect-square relative rounded-lg bg-gray-800 border-2 border-dashed ${isDragOver ? 'border-blue-500 text-blue-400' : 'border-gray-600 text-gray-400'} flex flex-col items-center justify-center hover:border-blue-500 hover:text-blue-400 focus:outline-none focus:border-blue-500 transition-all duration-300 overflow-hidden group`}
+        tabIndex={0}
+        aria-label={`${label} slot`}
+        onDrop={handleDrop} onDragOver={handleDragOver} onDragLeave={() => setIsDragOver(false)} onPaste={handlePaste}>
       
-      <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/png, image/jpeg, image/webp" />
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*, .heic, .heif" multiple />
       
-      {displayImageSrc ? (
-        <img
-            src={displayImageSrc}
-            alt={`Input ${image.id}`}
-            className="w-full h-full object-contain"
-        />
-      ) : (
-        <div className="w-full h-full flex flex-col items-center justify-center text-center cursor-pointer" onClick={handleClick}>
-          <UploadIcon className="w-10 h-10 mx-auto" />
-          <p className="mt-2 text-sm">Click or drop image here</p>
+        {displayImageSrc ? (
+          <img
+              src={displayImageSrc}
+              alt={label}
+              className="w-full h-full object-contain"
+          />
+        ) : (
+          <div className="w-full h-full flex flex-col items-center justify-center text-center cursor-pointer" onClick={handleClick}>
+            <UploadIcon className="w-10 h-10 mx-auto" />
+            <p className="mt-2 text-sm">Click, drop or paste images here</p>
+          </div>
+        )}
+
+        <div className="absolute top-2 left-2 bg-gray-900 bg-opacity-70 text-white text-xs font-bold px-2 py-1 rounded">
+          {label}
         </div>
-      )}
 
-      <div className="absolute top-2 left-2 bg-gray-900 bg-opacity-70 text-white text-xs font-bold px-2 py-1 rounded">
-        Image {image.id}
-      </div>
+        {canRemoveSlot && (
+          <button
+            onClick={() => onSlotRemove(image.id)}
+            className="absolute top-2 right-2 z-10 p-1 bg-gray-900 bg-opacity-70 text-gray-300 rounded hover:text-white hover:bg-red-600 transition"
+            aria-label={`Remove slot for ${label}`}
+            title="Remove this slot"
+          >
+            <CloseIcon className="w-4 h-4" />
+          </button>
+        )}
       
+        {image.base64 && (
+          <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all duration-300 flex items-center justify-center gap-4">
+              <button
+                  onClick={() => onEdit(image.id)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700"
+                  aria-label={`Edit ${label}`}
+              >
+                  <EditIcon />
+                  Edit
+              </button>
+              <button
+                  onClick={() => onImageRemove(image.id)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center gap-2 px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700"
+                  aria-label={`Remove ${label}`}
+              >
+                  <TrashIcon />
+                  Remove
+              </button>
+          </div>
+        )}
+      </div>
       {image.base64 && (
-        <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all duration-300 flex items-center justify-center gap-4">
-            <button
-                onClick={() => onEdit(image.id)}
-                className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700"
-                aria-label={`Edit Image ${image.id}`}
-            >
-                <EditIcon />
-                Edit
-            </button>
-            <button
-                onClick={() => onImageRemove(image.id)}
-                className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center gap-2 px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700"
-                aria-label={`Remove Image ${image.id}`}
-            >
-                <TrashIcon />
-                Remove
-            </button>
-        </div>
+        <p className="text-xs text-gray-500" title={sizeDetails || undefined}>
+          {ingest && `${ingest.width}×${ingest.height} · `}
+          {formatBytes(base64ByteLength(image.base64))}
+          {ingest && (ingest.resized || ingest.converted) && ` (was ${formatBytes(ingest.originalBytes)})`}
+        </p>
       )}
+      <div className="flex gap-2">
+        <select
+          value={image.role}
+          onChange={e => onDetailsChange(image.id, { role: e.target.value as ImageRole })}
+          className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+          aria-label={`Role of ${label}`}
+        >
+          {IMAGE_ROLES.map(role => (
+            <option key={role.value} value={role.value}>{role.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={image.caption}
+          maxLength={MAX_CAPTION_LENGTH}
+          onChange={e => onDetailsChange(image.id, { caption: e.target.value })}
+          placeholder="Short caption, e.g. 'woman in red coat'"
+          className="flex-grow min-w-0 bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+          aria-label={`Caption for ${label}`}
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import type { Job, JobStatus } from '../types';
+import { CloseIcon } from './icons';
+
+interface JobTrayProps {
+  jobs: Job[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onClearFinished: () => void;
+  onView: (versionId: string) => void;
+}
+
+const statusLabels: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const statusClasses: Record<JobStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-blue-300',
+  done: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const JobTray: React.FC<JobTrayProps> = ({ jobs, onCancel, onRetry, onDismiss, onClearFinished, onView }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [now, setNow] = useState(Date.now);
+  const activeCount = jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+  const hasRunning = jobs.some(j => j.status === 'running');
+
+  // Only ticks while something is running, to keep the elapsed times current.
+  useEffect(() => {
+    if (!hasRunning) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasRunning]);
+
+  if (jobs.length === 0) return null;
+
+  const elapsed = (job: Job) => {
+    if (!job.startedAt) return null;
+    return formatElapsed((job.finishedAt ?? now) - job.startedAt);
+  };
+
+  const linkClass = 'text-xs text-gray-300 hover:text-white';
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] bg-gray-800 border border-gray-700 rounded-lg shadow-2xl text-sm" role="status">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-700">
+        <button onClick={() => setIsCollapsed(!isCollapsed)} className="font-semibold text-gray-200 hover:text-white">
+          {activeCount > 0 ? `${activeCount} job${activeCount === 1 ? '' : 's'} in progress` : 'Jobs'} {isCollapsed ? '▴' : '▾'}
+        </button>
+        {jobs.length > activeCount && (
+          <button onClick={onClearFinished} className={linkClass}>Clear finished</button>
+        )}
+      </div>
+      {!isCollapsed && (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-700">
+          {[...jobs].reverse().map(job => (
+            <li key={job.id} className="px-3 py-2 flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                {job.status === 'running' && <span className="w-3 h-3 flex-shrink-0 border-2 border-t-transparent border-blue-400 rounded-full animate-spin" />}
+                <span className="flex-grow truncate text-gray-200" title={job.label}>{job.label}</span>
+                {(job.status === 'done' || job.status === 'error' || job.status === 'cancelled') && (
+                  <button onClick={() => onDismiss(job.id)} className="text-gray-500 hover:text-white" aria-label="Dismiss job">
+                    <CloseIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-xs">
+                <span className={statusClasses[job.status]}>{statusLabels[job.status]}</span>
+                {elapsed(job) && <span className="text-gray-400">{elapsed(job)}</span>}
+                <span className="flex-grow" />
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button onClick={() => onCancel(job.id)} className={linkClass}>Cancel</button>
+                )}
+                {(job.status === 'error' || job.status === 'cancelled') && (
+                  <button onClick={() => onRetry(job.id)} className={linkClass}>Retry</button>
+                )}
+                {job.status === 'done' && job.versionId && (
+                  <button onClick={() => onView(job.versionId!)} className={linkClass}>View</button>
+                )}
+              </div>
+              {job.error && (
+                <p className="text-xs text-red-300">
+                  {job.error.message}
+                  {job.error.guidance && <span className="block text-gray-400">{job.error.guidance}</span>}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default JobTray;
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { OutputAspectRatio, OutputSettings as OutputSettingsValue } from '../types';
+import { OUTPUT_ASPECT_RATIOS, OUTPUT_LONG_EDGES } from '../constants';
+
+interface OutputSettingsProps {
+  settings: OutputSettingsValue;
+  onChange: (settings: OutputSettingsValue) => void;
+}
+
+const selectClass = "bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500";
+
+const OutputSettings: React.FC<OutputSettingsProps> = ({ settings, onChange }) => (
+  <div className="inline-flex flex-wrap items-center gap-2 text-sm text-gray-400">
+    <span>Output</span>
+    <select
+      value={settings.aspectRatio}
+      onChange={e => onChange({ ...settings, aspectRatio: e.target.value as OutputAspectRatio })}
+      className={selectClass}
+      aria-label="Aspect ratio"
+    >
+      {OUTPUT_ASPECT_RATIOS.map(ratio => (
+        <option key={ratio} value={ratio}>{ratio === 'auto' ? 'Any shape' : ratio}</option>
+      ))}
+    </select>
+    <select
+      value={settings.longEdge ?? ''}
+      onChange={e => onChange({ ...settings, longEdge: e.target.value ? Number(e.target.value) : null })}
+      className={selectClass}
+      aria-label="Resolution"
+    >
+      <option value="">Model's size</option>
+      {OUTPUT_LONG_EDGES.map(px => <option key={px} value={px}>{px} px</option>)}
+    </select>
+    <select
+      value={settings.fit}
+      onChange={e => onChange({ ...settings, fit: e.target.value as OutputSettingsValue['fit'] })}
+      disabled={settings.aspectRatio === 'auto'}
+      className={`${selectClass} disabled:opacity-50`}
+      aria-label="Fit to aspect ratio"
+      title="How a result with a different shape is made to fit"
+    >
+      <option value="crop">Crop to fit</option>
+      <option value="pad">Pad to fit</option>
+    </select>
+  </div>
+);
+
+export default OutputSettings;
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { Provenance } from '../types';
+
+// A dropped file that carries the recipe of an earlier result.
+export interface RecipeOffer {
+  fileName: string;
+  provenance: Provenance;
+  // How many of the recipe's source images are loaded in a slot right now.
+  matchingSources: number;
+}
+
+interface RecipeBannerProps {
+  offer: RecipeOffer;
+  onRestore: () => void;
+  onDismiss: () => void;
+}
+
+const stepLabels: Record<Provenance['steps'][number]['kind'], string> = {
+  generate: 'Generated',
+  enhance: 'Enhanced',
+  edit: 'Inpainted',
+  finish: 'Finished',
+  refine: 'Refined',
+};
+
+const RecipeBanner: React.FC<RecipeBannerProps> = ({ offer, onRestore, onDismiss }) => {
+  const { provenance } = offer;
+  const sourceCount = provenance.sources.length;
+  return (
+    <div className="bg-blue-900 border border-blue-700 text-blue-100 px-4 py-3 rounded-lg mb-6" role="status">
+      <p>
+        <strong className="font-bold">"{offer.fileName}" was made with Scene Blender</strong>
+        {' '}on {new Date(provenance.createdAt).toLocaleString()}{provenance.model && ` using ${provenance.model}`}.
+      </p>
+      <p className="mt-1 text-sm text-blue-200 line-clamp-2">Prompt: "{provenance.prompt}"</p>
+      {provenance.steps.length > 0 && (
+        <p className="mt-1 text-sm text-blue-200 line-clamp-2">
+          Then: {provenance.steps.map(step => `${stepLabels[step.kind]} "${step.prompt}"`).join(' → ')}
+        </p>
+      )}
+      {sourceCount > 0 && (
+        <p className="mt-1 text-sm text-blue-200">
+          {offer.matchingSources} of {sourceCount} source {sourceCount === 1 ? 'image matches' : 'images match'} the images loaded now.
+        </p>
+      )}
+      <div className="mt-3 flex gap-3">
+        <button onClick={onRestore} className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-500">
+          Restore prompt and settings
+        </button>
+        <button onClick={onDismiss} className="px-3 py-1 text-sm text-blue-200 hover:text-white">
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeBanner;
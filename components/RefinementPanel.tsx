@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import type { ResultVersion } from '../types';
+import { toDataUrl } from '../utils/imageUtils';
+import { SparklesIcon } from './icons';
+
+interface RefinementPanelProps {
+  // The versions from the generated scene down to the current one, oldest first.
+  thread: ResultVersion[];
+  versionLabel: (version: ResultVersion) => string;
+  onRestore: (id: string) => void;
+  draft: string;
+  onDraftChange: (draft: string) => void;
+  onSend: () => void;
+}
+
+const kindNotes: Partial<Record<ResultVersion['kind'], string>> = {
+  enhance: 'Preset',
+  edit: 'Inpainted',
+  finish: 'Local adjustments',
+};
+
+const RefinementPanel: React.FC<RefinementPanelProps> = ({ thread, versionLabel, onRestore, draft, onDraftChange, onSend }) => {
+  const listRef = useRef<HTMLOListElement>(null);
+  const latestId = thread[thread.length - 1]?.id;
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [latestId]);
+
+  const canSend = draft.trim().length > 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      // Also keeps Mod+Enter from reaching the Generate shortcut.
+      e.preventDefault();
+      if (canSend) onSend();
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold text-gray-300 mb-2">Refine</h3>
+      <ol ref={listRef} className="max-h-[28rem] overflow-y-auto flex flex-col gap-3 bg-gray-900 rounded-md p-3">
+        {thread.map(version => {
+          const isLatest = version.id === latestId;
+          return (
+            <li key={version.id} className="flex flex-col gap-2">
+              <div className="self-end max-w-[80%] bg-blue-700 text-white text-sm rounded-lg px-3 py-2 whitespace-pre-wrap">
+                {kindNotes[version.kind] && <span className="block text-xs text-blue-200">{kindNotes[version.kind]}</span>}
+                {version.prompt}
+              </div>
+              <button
+                onClick={() => onRestore(version.id)}
+                disabled={isLatest}
+                className={`self-start flex items-end gap-2 rounded-lg p-1 ${isLatest ? 'ring-2 ring-blue-500' : 'hover:bg-gray-700'}`}
+                title={isLatest ? 'Current result' : 'Go back to this result; new instructions will branch from it'}
+              >
+                <img src={toDataUrl(version.image)} alt={versionLabel(version)} className="w-40 rounded-md" />
+                <span className="text-xs text-gray-400">{versionLabel(version)}{!isLatest && ' · Restore'}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      <div className="mt-3 flex gap-2">
+        <textarea
+          value={draft}
+          onChange={e => onDraftChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask for a change, e.g. 'move the lamp to the left' (Enter to send, Shift+Enter for a new line)"
+          rows={2}
+          className="flex-grow bg-gray-700 border-gray-600 rounded-md text-gray-200 focus:ring-blue-500 focus:border-blue-500 transition"
+          aria-label="Refinement instruction"
+        />
+        <button
+          onClick={onSend}
+          disabled={!canSend}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <SparklesIcon className="w-4 h-4" />
+          Send
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefinementPanel;
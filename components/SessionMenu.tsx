@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import type { SessionSummary } from '../types';
+
+interface SessionMenuProps {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  disabled?: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const buttonClass = "px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const SessionMenu: React.FC<SessionMenuProps> = ({ sessions, activeSessionId, disabled, onSwitch, onCreate, onRename, onDelete }) => {
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const activeSession = sessions.find(s => s.id === activeSessionId);
+
+  const commitRename = () => {
+    if (activeSessionId && draftName && draftName.trim()) {
+      onRename(activeSessionId, draftName.trim());
+    }
+    setDraftName(null);
+  };
+
+  const handleDelete = () => {
+    if (activeSession && window.confirm(`Delete session "${activeSession.name}"? This cannot be undone.`)) {
+      onDelete(activeSession.id);
+    }
+  };
+
+  return (
+    <div className="inline-flex flex-wrap items-center gap-2 text-sm text-gray-400">
+      <span>Session</span>
+      {draftName !== null ? (
+        <input
+          autoFocus
+          value={draftName}
+          onChange={e => setDraftName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setDraftName(null);
+          }}
+          className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500"
+          aria-label="Session name"
+        />
+      ) : (
+        <select
+          value={activeSessionId ?? ''}
+          onChange={e => onSwitch(e.target.value)}
+          disabled={disabled}
+          className="bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm max-w-xs focus:ring-blue-500 focus:border-blue-500"
+        >
+          {sessions.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+      )}
+      <button onClick={onCreate} disabled={disabled} className={buttonClass}>New</button>
+      <button onClick={() => setDraftName(activeSession?.name ?? '')} disabled={disabled || !activeSession} className={buttonClass}>Rename</button>
+      <button onClick={handleDelete} disabled={disabled || !activeSession} className={buttonClass}>Delete</button>
+    </div>
+  );
+};
+
+export default SessionMenu;
@@ -0,0 +1,69 @@
+import React, { useMemo, useState } from 'react';
+import type { PromptTemplate } from '../types';
+import { extractVariables, fillTemplate, formatVariableName } from '../utils/templates';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { CloseIcon } from './icons';
+
+interface TemplateFillModalProps {
+  template: PromptTemplate;
+  onApply: (text: string) => void;
+  onClose: () => void;
+}
+
+const TemplateFillModal: React.FC<TemplateFillModalProps> = ({ template, onApply, onClose }) => {
+  useShortcuts([{ id: 'close-dialog', label: 'Cancel template', group: 'General', run: onClose, allowInInputs: true }], true);
+
+  const variables = useMemo(() => extractVariables(template.template), [template]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const filled = fillTemplate(template.template, values);
+  const isComplete = variables.every(name => values[name]?.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isComplete) onApply(filled);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <form
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-lg"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">{template.name}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close">
+            <CloseIcon />
+          </button>
+        </div>
+        <div className="p-4 space-y-3">
+          {variables.map((name, i) => (
+            <label key={name} className="block text-sm text-gray-300">
+              <span className="capitalize">{formatVariableName(name)}</span>
+              <input
+                autoFocus={i === 0}
+                value={values[name] ?? ''}
+                onChange={e => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                className="mt-1 w-full bg-gray-700 border-gray-600 rounded-md text-gray-200 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+          ))}
+          <p className="text-sm text-gray-400 bg-gray-900 rounded-md p-3">{filled}</p>
+        </div>
+        <div className="p-4 border-t border-gray-700 text-right">
+          <button type="button" onClick={onClose} className="px-6 py-2 text-gray-300 font-semibold rounded-md hover:bg-gray-700 mr-2">Cancel</button>
+          <button type="submit" disabled={!isComplete} className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed">
+            Use
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TemplateFillModal;
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import type { PromptTemplate, TemplateKind } from '../types';
+import { extractVariables } from '../utils/templates';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { CloseIcon, TrashIcon } from './icons';
+
+interface TemplateLibraryModalProps {
+  templates: PromptTemplate[];
+  onAdd: (template: Omit<PromptTemplate, 'id'>) => PromptTemplate;
+  onUpdate: (id: string, changes: Partial<Omit<PromptTemplate, 'id'>>) => void;
+  onRemove: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const kindLabels: Record<TemplateKind, string> = {
+  scene: 'Scene prompts',
+  enhancement: 'Enhancement presets',
+};
+
+const buttonClass = "px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600";
+
+const TemplateLibraryModal: React.FC<TemplateLibraryModalProps> = ({ templates, onAdd, onUpdate, onRemove, onImport, onExport, onReset, onClose }) => {
+  useShortcuts([{ id: 'close-dialog', label: 'Close prompt library', group: 'General', run: onClose, allowInInputs: true }], true);
+
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const selected = templates.find(t => t.id === selectedId);
+
+  const handleAdd = (kind: TemplateKind) => {
+    const created = onAdd({ kind, name: kind === 'scene' ? 'New scene prompt' : 'New enhancement', template: '' });
+    setSelectedId(created.id);
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Replace your whole library with the built-in presets? Your own templates will be lost.')) {
+      onReset();
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">Prompt Library</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close prompt library">
+            <CloseIcon />
+          </button>
+        </div>
+        <div className="flex flex-grow min-h-0">
+          <div className="w-72 border-r border-gray-700 overflow-y-auto p-3 space-y-4">
+            {(Object.keys(kindLabels) as TemplateKind[]).map(kind => (
+              <div key={kind}>
+                <div className="flex justify-between items-center mb-1">
+                  <h3 className="text-sm font-semibold text-gray-400">{kindLabels[kind]}</h3>
+                  <button onClick={() => handleAdd(kind)} className="text-sm text-blue-400 hover:text-blue-300">+ Add</button>
+                </div>
+                <ul className="space-y-1">
+                  {templates.filter(t => t.kind === kind).map(t => (
+                    <li key={t.id}>
+                      <button
+                        onClick={() => setSelectedId(t.id)}
+                        className={`w-full text-left px-2 py-1 rounded-md text-sm truncate ${t.id === selectedId ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                      >
+                        {t.name || 'Untitled'}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+          <div className="flex-grow p-4 overflow-y-auto">
+            {selected ? (
+              <div className="space-y-4">
+                <label className="block text-sm text-gray-300">
+                  Name
+                  <input
+                    value={selected.name}
+                    onChange={e => onUpdate(selected.id, { name: e.target.value })}
+                    className="mt-1 w-full bg-gray-700 border-gray-600 rounded-md text-gray-200 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+                <label className="block text-sm text-gray-300">
+                  Type
+                  <select
+                    value={selected.kind}
+                    onChange={e => onUpdate(selected.id, { kind: e.target.value as TemplateKind })}
+                    className="mt-1 block bg-gray-700 border-gray-600 rounded-md text-gray-200 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="scene">Scene prompt</option>
+                    <option value="enhancement">Enhancement preset</option>
+                  </select>
+                </label>
+                <label className="block text-sm text-gray-300">
+                  Template
+                  <textarea
+                    value={selected.template}
+                    onChange={e => onUpdate(selected.id, { template: e.target.value })}
+                    rows={6}
+                    className="mt-1 w-full bg-gray-700 border-gray-600 rounded-md text-gray-200 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+                <p className="text-xs text-gray-400">
+                  Use <code className="text-gray-300">{'{variable_name}'}</code> for values to fill in when the template is used.
+                  {extractVariables(selected.template).length > 0 && (
+                    <> Variables: {extractVariables(selected.template).join(', ')}.</>
+                  )}
+                </p>
+                <button
+                  onClick={() => { onRemove(selected.id); setSelectedId(null); }}
+                  className="inline-flex items-center gap-2 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                  Delete
+                </button>
+              </div>
+            ) : (
+              <p className="text-gray-400">Select a template to edit it, or add a new one.</p>
+            )}
+          </div>
+        </div>
+        <div className="p-4 border-t border-gray-700 flex flex-wrap gap-2 justify-between">
+          <div className="flex gap-2">
+            <button onClick={() => importInputRef.current?.click()} className={buttonClass}>Import pack</button>
+            <button onClick={onExport} className={buttonClass}>Export pack</button>
+            <input
+              type="file"
+              ref={importInputRef}
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <button onClick={handleReset} className={buttonClass}>Reset to built-in presets</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibraryModal;
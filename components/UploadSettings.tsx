@@ -0,0 +1,47 @@
+import React from 'react';
+import type { IngestFormat, IngestSettings } from '../types';
+import { INGEST_MAX_DIMENSIONS, INGEST_MAX_MEGABYTES } from '../constants';
+
+interface UploadSettingsProps {
+  settings: IngestSettings;
+  onChange: (settings: IngestSettings) => void;
+}
+
+const selectClass = "bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500";
+
+const UploadSettings: React.FC<UploadSettingsProps> = ({ settings, onChange }) => (
+  <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-6 text-sm text-gray-400">
+    <span>New uploads are shrunk to at most</span>
+    <select
+      value={settings.maxDimension}
+      onChange={e => onChange({ ...settings, maxDimension: Number(e.target.value) })}
+      className={selectClass}
+      aria-label="Maximum image dimension"
+    >
+      {INGEST_MAX_DIMENSIONS.map(px => <option key={px} value={px}>{px} px</option>)}
+    </select>
+    <select
+      value={settings.maxBytes}
+      onChange={e => onChange({ ...settings, maxBytes: Number(e.target.value) })}
+      className={selectClass}
+      aria-label="Maximum file size"
+    >
+      {INGEST_MAX_MEGABYTES.map(mb => <option key={mb} value={mb * 1024 * 1024}>{mb} MB</option>)}
+    </select>
+    <label className="inline-flex items-center gap-2">
+      HEIC, AVIF and other formats become
+      <select
+        value={settings.convertTo}
+        onChange={e => onChange({ ...settings, convertTo: e.target.value as IngestFormat })}
+        className={selectClass}
+      >
+        <option value="image/jpeg">JPEG</option>
+        <option value="image/png">PNG</option>
+        <option value="image/webp">WebP</option>
+      </select>
+    </label>
+    <span className="text-gray-500">Location and camera metadata are always removed.</span>
+  </div>
+);
+
+export default UploadSettings;
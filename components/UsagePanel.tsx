@@ -0,0 +1,284 @@
+import React, { useMemo } from 'react';
+import type { ModelPrice, UsageBudget, UsageOperation, UsageRecord } from '../types';
+import { USAGE_RETENTION_DAYS } from '../constants';
+import {
+  clearUsage,
+  dayKey,
+  estimateCost,
+  formatCost,
+  getBudgetStatus,
+  recordsForDay,
+  recordsForSession,
+  setPriceTable,
+  setUsageBudget,
+  summarize,
+  type UsageTotals,
+} from '../services/usageTracker';
+import { useUsage } from '../hooks/useUsage';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { CloseIcon } from './icons';
+
+interface UsagePanelProps {
+  sessionId: string | null;
+  sessionName: string | null;
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+const RECENT_SHOWN = 25;
+
+const operationLabels: Record<UsageOperation, string> = {
+  generate: 'Generate',
+  enhance: 'Enhance',
+  edit: 'Edit',
+  inpaint: 'Inpaint',
+  refine: 'Refine',
+};
+
+const priceFields: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillionTokens', label: 'Input / 1M tokens' },
+  { key: 'outputPerMillionTokens', label: 'Output / 1M tokens' },
+  { key: 'perImage', label: 'Per image' },
+];
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const formatLatency = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const TotalsCard: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+  <div className="bg-gray-900 rounded-md p-3">
+    <h3 className="text-sm text-gray-400">{title}</h3>
+    <p className="text-2xl font-semibold text-white">{formatCost(totals.cost)}</p>
+    <p className="text-xs text-gray-400">
+      {totals.requests} requests{totals.failed > 0 && ` (${totals.failed} failed)`} · {totals.images} images
+    </p>
+    <p className="text-xs text-gray-400">
+      {formatTokens(totals.inputTokens)} in · {formatTokens(totals.outputTokens)} out
+    </p>
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ sessionId, sessionName, onClose }) => {
+  const { records, prices, budget } = useUsage();
+  useShortcuts([{ id: 'close-dialog', label: 'Close usage', group: 'General', run: onClose, allowInInputs: true }], true);
+
+  const today = useMemo(() => summarize(recordsForDay(records), prices), [records, prices]);
+  const session = useMemo(() => summarize(recordsForSession(records, sessionId), prices), [records, prices, sessionId]);
+  const allTime = useMemo(() => summarize(records, prices), [records, prices]);
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, UsageRecord[]>();
+    records.forEach(r => {
+      const key = dayKey(r.at);
+      const dayRecords = byDay.get(key);
+      if (dayRecords) dayRecords.push(r);
+      else byDay.set(key, [r]);
+    });
+    return [...byDay.entries()]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .slice(0, DAYS_SHOWN)
+      .map(([day, dayRecords]) => ({ day, totals: summarize(dayRecords, prices) }));
+  }, [records, prices]);
+
+  const recent = useMemo(() => records.slice(-RECENT_SHOWN).reverse(), [records]);
+
+  // Models that were used but have no price yet are listed too, so they can be filled in.
+  const models = useMemo(
+    () => [...new Set([...Object.keys(prices), ...records.map(r => r.model)])].sort(),
+    [prices, records]
+  );
+
+  const handlePriceChange = (model: string, key: keyof ModelPrice, value: string) => {
+    const current = prices[model] ?? { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 };
+    setPriceTable({ ...prices, [model]: { ...current, [key]: Math.max(0, Number(value) || 0) } });
+  };
+
+  const handleBudgetChange = (changes: Partial<UsageBudget>) => setUsageBudget({ ...budget, ...changes });
+
+  const handleClear = () => {
+    if (window.confirm('Delete the whole usage history? Prices and the budget are kept.')) {
+      clearUsage();
+    }
+  };
+
+  const inputClass = 'bg-gray-700 border-gray-600 rounded-md text-gray-200 text-sm focus:ring-blue-500 focus:border-blue-500';
+  const { exceeded } = getBudgetStatus({ records, prices, budget });
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">Usage and cost</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close usage">
+            <CloseIcon />
+          </button>
+        </div>
+        <div className="flex flex-col gap-6 p-4 overflow-y-auto text-sm text-gray-300">
+          <p className="text-xs text-gray-400">
+            Costs are estimates from the price table below and the token counts the backend reports.
+            History is kept in this browser for {USAGE_RETENTION_DAYS} days.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <TotalsCard title="Today" totals={today} />
+            <TotalsCard title={sessionName ? `Session "${sessionName}"` : 'This session'} totals={session} />
+            <TotalsCard title={`Last ${USAGE_RETENTION_DAYS} days`} totals={allTime} />
+          </div>
+
+          <section className="flex flex-col gap-2">
+            <h3 className="font-semibold text-gray-200">Daily budget</h3>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="inline-flex items-center gap-2">
+                Limit ($)
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={budget.dailyLimit ?? ''}
+                  placeholder="None"
+                  onChange={e => handleBudgetChange({ dailyLimit: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                  className={`${inputClass} w-28`}
+                />
+              </label>
+              <label className="inline-flex items-center gap-2">
+                When reached
+                <select
+                  value={budget.onExceeded}
+                  onChange={e => handleBudgetChange({ onExceeded: e.target.value as UsageBudget['onExceeded'] })}
+                  className={inputClass}
+                >
+                  <option value="warn">Warn only</option>
+                  <option value="block">Block new requests</option>
+                </select>
+              </label>
+              {budget.dailyLimit !== null && (
+                <span className={exceeded ? 'text-red-400' : 'text-gray-400'}>
+                  {formatCost(today.cost)} of {formatCost(budget.dailyLimit)} used today
+                </span>
+              )}
+            </div>
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <h3 className="font-semibold text-gray-200">By day</h3>
+            {days.length === 0 ? <p className="text-gray-400">No requests yet.</p> : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-gray-400">
+                  <tr>
+                    <th className="py-1 font-normal">Day</th>
+                    <th className="py-1 font-normal text-right">Requests</th>
+                    <th className="py-1 font-normal text-right">Failed</th>
+                    <th className="py-1 font-normal text-right">Images</th>
+                    <th className="py-1 font-normal text-right">Tokens in / out</th>
+                    <th className="py-1 font-normal text-right">Avg. latency</th>
+                    <th className="py-1 font-normal text-right">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.map(({ day, totals }) => (
+                    <tr key={day} className="border-t border-gray-700">
+                      <td className="py-1">{day}</td>
+                      <td className="py-1 text-right">{totals.requests}</td>
+                      <td className="py-1 text-right">{totals.failed}</td>
+                      <td className="py-1 text-right">{totals.images}</td>
+                      <td className="py-1 text-right">{formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}</td>
+                      <td className="py-1 text-right">{formatLatency(totals.latencyMs / totals.requests)}</td>
+                      <td className="py-1 text-right">{formatCost(totals.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {recent.length > 0 && (
+            <section className="flex flex-col gap-2">
+              <h3 className="font-semibold text-gray-200">Recent requests</h3>
+              <table className="w-full text-left">
+                <thead className="text-xs text-gray-400">
+                  <tr>
+                    <th className="py-1 font-normal">Time</th>
+                    <th className="py-1 font-normal">Request</th>
+                    <th className="py-1 font-normal">Model</th>
+                    <th className="py-1 font-normal">Outcome</th>
+                    <th className="py-1 font-normal text-right">Tokens in / out</th>
+                    <th className="py-1 font-normal text-right">Latency</th>
+                    <th className="py-1 font-normal text-right">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map(r => (
+                    <tr key={r.id} className="border-t border-gray-700">
+                      <td className="py-1 whitespace-nowrap">{new Date(r.at).toLocaleString()}</td>
+                      <td className="py-1">{operationLabels[r.operation]}</td>
+                      <td className="py-1 text-gray-400">{r.model}</td>
+                      <td className={`py-1 ${r.outcome === 'error' ? 'text-red-400' : r.outcome === 'cancelled' ? 'text-gray-400' : ''}`} title={r.error ?? undefined}>
+                        {r.outcome === 'success' ? 'OK' : r.outcome === 'error' ? 'Failed' : 'Cancelled'}
+                      </td>
+                      <td className="py-1 text-right">
+                        {r.usage ? `${formatTokens(r.usage.inputTokens)} / ${formatTokens(r.usage.outputTokens)}` : '—'}
+                      </td>
+                      <td className="py-1 text-right">{formatLatency(r.latencyMs)}</td>
+                      <td className="py-1 text-right">{formatCost(estimateCost(r, prices))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          <section className="flex flex-col gap-2">
+            <h3 className="font-semibold text-gray-200">Prices (US dollars)</h3>
+            <table className="w-full text-left">
+              <thead className="text-xs text-gray-400">
+                <tr>
+                  <th className="py-1 font-normal">Model</th>
+                  {priceFields.map(({ key, label }) => <th key={key} className="py-1 font-normal">{label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(model => (
+                  <tr key={model} className="border-t border-gray-700">
+                    <td className="py-1">{model}</td>
+                    {priceFields.map(({ key, label }) => (
+                      <td key={key} className="py-1">
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={prices[model]?.[key] ?? 0}
+                          onChange={e => handlePriceChange(model, key, e.target.value)}
+                          className={`${inputClass} w-28`}
+                          aria-label={`${model} ${label}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </div>
+        <div className="flex justify-end p-4 border-t border-gray-700">
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="px-4 py-2 text-red-300 rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear history
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
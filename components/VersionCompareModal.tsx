@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import type { ResultVersion } from '../types';
+import ComparisonViewer from './ComparisonViewer';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { CloseIcon } from './icons';
+
+interface VersionCompareModalProps {
+  versions: [ResultVersion, ResultVersion];
+  labels: [string, string];
+  onClose: () => void;
+}
+
+const VersionCompareModal: React.FC<VersionCompareModalProps> = ({ versions, labels, onClose }) => {
+  useShortcuts([{ id: 'close-dialog', label: 'Close comparison', group: 'General', run: onClose, allowInInputs: true }], true);
+
+  const sources = useMemo(
+    () => [{ id: versions[0].id, label: labels[0], image: versions[0].image }],
+    [versions[0], labels[0]]
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">Compare {labels[0]} and {labels[1]}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close comparison">
+            <CloseIcon />
+          </button>
+        </div>
+        <div className="p-4 overflow-y-auto">
+          <ComparisonViewer
+            sources={sources}
+            result={versions[1].image}
+            resultLabel={labels[1]}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            {versions.map((version, i) => (
+              <div key={version.id} className="flex flex-col gap-2">
+                <div className="text-sm text-gray-300">
+                  <span className="font-semibold">{labels[i]}</span> · {new Date(version.createdAt).toLocaleString()}
+                </div>
+                <div className="text-xs text-gray-400">{version.prompt}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionCompareModal;
@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import type { ResultVersion } from '../types';
+import { toDataUrl } from '../utils/imageUtils';
+import { HistoryIcon } from './icons';
+
+interface VersionTreeProps {
+  versions: ResultVersion[];
+  currentVersionId: string | null;
+  onSelect: (id: string) => void;
+  onCompare: (firstId: string, secondId: string) => void;
+}
+
+const kindLabels: Record<ResultVersion['kind'], string> = {
+  generate: 'Generated',
+  enhance: 'Enhanced',
+  edit: 'Inpainted',
+  finish: 'Finished',
+  refine: 'Refined',
+};
+
+const VersionTree: React.FC<VersionTreeProps> = ({ versions, currentVersionId, onSelect, onCompare }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const childrenByParent = useMemo(() => {
+    const map = new Map<string | null, ResultVersion[]>();
+    versions.forEach(v => {
+      map.set(v.parentId, [...(map.get(v.parentId) || []), v]);
+    });
+    return map;
+  }, [versions]);
+
+  const versionNumbers = useMemo(() => new Map(versions.map((v, i) => [v.id, i + 1])), [versions]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      // Keep the two most recent picks.
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const renderNode = (version: ResultVersion): React.ReactNode => {
+    const isCurrent = version.id === currentVersionId;
+    const children = childrenByParent.get(version.id) || [];
+    return (
+      <li key={version.id}>
+        <div
+          className={`flex items-center gap-3 p-2 rounded-md cursor-pointer transition ${isCurrent ? 'bg-blue-900 bg-opacity-60 ring-1 ring-blue-500' : 'hover:bg-gray-700'}`}
+          onClick={() => onSelect(version.id)}
+        >
+          <img src={toDataUrl(version.image)} alt={`Version ${versionNumbers.get(version.id)}`} className="w-12 h-12 object-cover rounded-sm bg-gray-900 flex-shrink-0" />
+          <div className="min-w-0 flex-grow">
+            <div className="text-sm font-semibold text-gray-200">
+              v{versionNumbers.get(version.id)} · {kindLabels[version.kind]}
+            </div>
+            <div className="text-xs text-gray-400 truncate" title={version.prompt}>{version.prompt}</div>
+            <div className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleTimeString()}</div>
+          </div>
+          <input
+            type="checkbox"
+            checked={compareIds.includes(version.id)}
+            onChange={() => toggleCompare(version.id)}
+            onClick={e => e.stopPropagation()}
+            className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+            title="Pick for comparison"
+          />
+        </div>
+        {children.length > 0 && (
+          <ul className="mt-1 ml-6 pl-2 space-y-1 border-l border-gray-700">
+            {children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  if (versions.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-300">
+          <HistoryIcon />
+          Versions
+        </h3>
+        <button
+          onClick={() => onCompare(compareIds[0], compareIds[1])}
+          disabled={compareIds.length !== 2}
+          className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Compare ({compareIds.length}/2)
+        </button>
+      </div>
+      <ul className="space-y-1 max-h-96 overflow-y-auto">
+        {(childrenByParent.get(null) || []).map(renderNode)}
+      </ul>
+    </div>
+  );
+};
+
+export default VersionTree;
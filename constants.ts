@@ -1 +1,157 @@
-export const MAX_IMAGES = 2;
+import type { FinishSettings, ImageRole, IngestFormat, IngestSettings, LegendEntry, OutputAspectRatio, OutputSettings, PriceTable, PromptTemplate, RequestSettings, ShortcutBindings, UsageBudget } from './types';
+
+export const MIN_IMAGES = 1;
+export const DEFAULT_IMAGES = 2;
+export const MAX_IMAGES = 6;
+export const MAX_CAPTION_LENGTH = 120;
+
+export const IMAGE_ROLES: { value: ImageRole; label: string; description: string }[] = [
+  { value: 'unspecified', label: 'No specific role', description: '' },
+  { value: 'subject', label: 'Subject', description: 'the main subject to place into the final scene; preserve its identity and details' },
+  { value: 'background', label: 'Background', description: 'the environment or background of the final scene' },
+  { value: 'style', label: 'Style reference', description: 'a style reference; match its color grading, mood and artistic style, but do not copy its content' },
+  { value: 'lighting', label: 'Lighting reference', description: 'a lighting reference; match the direction, color and quality of its light' },
+  { value: 'prop', label: 'Prop', description: 'an object or prop to include in the final scene' },
+];
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+export const PROVIDER_STORAGE_KEY = 'scene-blender:provider';
+
+export const REQUEST_SETTINGS_STORAGE_KEY = 'scene-blender:request-settings';
+export const DEFAULT_REQUEST_SETTINGS: RequestSettings = { timeoutMs: 90_000, maxRetries: 2, concurrency: 3 };
+export const REQUEST_TIMEOUT_OPTIONS_MS = [30_000, 60_000, 90_000, 180_000, 300_000];
+export const MAX_REQUEST_RETRIES = 5;
+export const MAX_JOB_CONCURRENCY = 6;
+export const RETRY_BASE_DELAY_MS = 1000;
+export const RETRY_MAX_DELAY_MS = 30_000;
+
+// Artificial delay for the mock provider so loading states can be exercised offline.
+export const MOCK_LATENCY_MS = 800;
+
+export const USAGE_STORAGE_KEY = 'scene-blender:usage';
+export const USAGE_PRICES_STORAGE_KEY = 'scene-blender:usage-prices';
+export const USAGE_BUDGET_STORAGE_KEY = 'scene-blender:usage-budget';
+export const USAGE_MAX_RECORDS = 5000;
+export const USAGE_RETENTION_DAYS = 90;
+// Published list prices at the time of writing; teams on other plans can edit them in the usage panel.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  [GEMINI_IMAGE_MODEL]: { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30, perImage: 0 },
+  'mock-compositor': { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 },
+};
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { dailyLimit: null, onExceeded: 'warn' };
+
+export const STORAGE_DB_NAME = 'scene-blender';
+export const ACTIVE_SESSION_STORAGE_KEY = 'scene-blender:active-session';
+export const AUTOSAVE_DELAY_MS = 800;
+
+export const PROJECT_BUNDLE_FORMAT = 'scene-blender-project';
+export const PROJECT_BUNDLE_VERSION = 7;
+export const PROJECT_BUNDLE_EXTENSION = '.blendproj';
+
+export const PROVENANCE_FORMAT = 'scene-blender-recipe';
+export const PROVENANCE_VERSION = 1;
+
+export const ANNOTATION_MODE_STORAGE_KEY = 'scene-blender:annotation-mode';
+
+export const LEGEND_STORAGE_KEY = 'scene-blender:annotation-legend';
+export const DEFAULT_LEGEND: LegendEntry[] = [
+  { color: '#ff0000', meaning: 'place the subject here' },
+  { color: '#0000ff', meaning: 'remove this' },
+  { color: '#00ff00', meaning: 'keep this unchanged' },
+];
+
+export const INGEST_SETTINGS_STORAGE_KEY = 'scene-blender:ingest-settings';
+export const SUPPORTED_INPUT_TYPES: IngestFormat[] = ['image/jpeg', 'image/png', 'image/webp'];
+export const DEFAULT_INGEST_SETTINGS: IngestSettings = {
+  maxDimension: 2048,
+  maxBytes: 4 * 1024 * 1024,
+  convertTo: 'image/jpeg',
+};
+export const INGEST_MAX_DIMENSIONS = [1024, 1536, 2048, 3072, 4096];
+export const INGEST_MAX_MEGABYTES = [1, 2, 4, 8, 16];
+// Lossy re-encodes start at this quality and step down towards the minimum to meet the byte budget.
+export const INGEST_QUALITY = 0.92;
+export const INGEST_MIN_QUALITY = 0.6;
+
+export const OUTPUT_SETTINGS_STORAGE_KEY = 'scene-blender:output-settings';
+export const OUTPUT_ASPECT_RATIOS: OutputAspectRatio[] = ['auto', '1:1', '4:3', '3:4', '3:2', '2:3', '16:9', '9:16', '21:9'];
+export const OUTPUT_LONG_EDGES = [1024, 1536, 2048, 3072, 4096];
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  aspectRatio: 'auto',
+  longEdge: null,
+  fit: 'crop',
+  format: 'image/png',
+  quality: 0.92,
+  filenameTemplate: '{date}_{prompt-slug}_{version}',
+};
+
+export const DEFAULT_FINISH_SETTINGS: FinishSettings = {
+  crop: { x: 0, y: 0, width: 1, height: 1 },
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  tint: 0,
+  vignette: 0,
+  sharpen: 0,
+  grain: 0,
+};
+// Live previews are rendered at most this large; applying renders at full size.
+export const FINISH_PREVIEW_MAX_SIZE = 1200;
+
+// Follow-up instructions are sent with at most this many earlier turns as images; older turns go as text.
+export const REFINE_CONTEXT_TURNS = 4;
+
+export const MIN_CANDIDATES = 1;
+export const MAX_CANDIDATES = 8;
+
+export const TEMPLATES_STORAGE_KEY = 'scene-blender:templates';
+export const TEMPLATE_PACK_FORMAT = 'scene-blender-presets';
+export const TEMPLATE_PACK_VERSION = 1;
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  { id: 'builtin-enhance-cinematic', kind: 'enhancement', name: 'Make it more Cinematic', template: 'Make the image more Cinematic' },
+  { id: 'builtin-enhance-photorealistic', kind: 'enhancement', name: 'Boost Photorealism', template: 'Make the image more Photorealistic' },
+  { id: 'builtin-enhance-time-of-day', kind: 'enhancement', name: 'Change time of day', template: 'Relight the scene as if it were {time_of_day}, keeping every object and person unchanged' },
+  { id: 'builtin-scene-place-subject', kind: 'scene', name: 'Place subject in background', template: 'Place the {subject} from Image 1 into the scene from Image 2, at {time_of_day}. Match the lighting and perspective of Image 2.' },
+  { id: 'builtin-scene-product-shot', kind: 'scene', name: 'Product shot', template: 'Create a professional product photo of the {product} on a {surface}, with soft studio lighting and a shallow depth of field.' },
+];
+
+export const SHORTCUTS_STORAGE_KEY = 'scene-blender:shortcuts';
+// The first few enhancement presets get numbered shortcuts.
+export const ENHANCEMENT_SHORTCUT_COUNT = 4;
+export const DEFAULT_SHORTCUT_BINDINGS: ShortcutBindings = {
+  'command-palette': ['Mod+K'],
+  'show-help': ['?'],
+  'close-dialog': ['Escape'],
+  'generate': ['Mod+Enter'],
+  'toggle-compare': ['\\'],
+  'download-result': ['Mod+S'],
+  'inpaint-result': ['Shift+I'],
+  'finish-result': ['Shift+F'],
+  'show-usage': ['Shift+U'],
+  ...Object.fromEntries(Array.from({ length: ENHANCEMENT_SHORTCUT_COUNT }, (_, i) => [`enhance-${i + 1}`, [`Alt+${i + 1}`]])),
+  'editor-tool-pen': ['P'],
+  'editor-tool-circle': ['C'],
+  'editor-tool-box': ['B'],
+  'editor-tool-arrow': ['A'],
+  'editor-tool-text': ['T'],
+  'editor-tool-eraser': ['E'],
+  'editor-tool-move': ['M'],
+  'editor-tool-mask': ['K'],
+  'editor-pick-color': ['I'],
+  'editor-undo': ['Mod+Z'],
+  'editor-redo': ['Mod+Shift+Z', 'Mod+Y'],
+  'editor-delete': ['Delete', 'Backspace'],
+  'editor-history': ['H'],
+  'editor-legend': ['L'],
+  'editor-zoom-in': ['='],
+  'editor-zoom-out': ['-'],
+  'editor-zoom-fit': ['0'],
+  'editor-zoom-actual': ['1'],
+  'editor-save': ['Mod+S'],
+};
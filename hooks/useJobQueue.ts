@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Job, JobKind } from '../types';
+import { CancelledError, ImageServiceError } from '../services/errors';
+
+// Resolves with the id of the version it added, if any. Kept so failed jobs can be retried as-is.
+export type JobTask = (signal: AbortSignal) => Promise<string | null>;
+
+interface QueuedTask {
+  run: JobTask;
+  // Called instead of `run` when the job is cancelled before it starts.
+  onSkip?: () => void;
+}
+
+const isFinished = (job: Job) => job.status === 'done' || job.status === 'error' || job.status === 'cancelled';
+
+/**
+ * Runs model requests in the background, oldest first, with at most `concurrency` of them
+ * in flight. Jobs stay listed after they finish until they are dismissed.
+ */
+export const useJobQueue = (concurrency: number) => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const tasks = useRef(new Map<string, QueuedTask>());
+  // One per running job; its size is how many slots are taken.
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const updateJob = useCallback((id: string, changes: Partial<Job>) => {
+    setJobs(prev => prev.map(j => j.id === id ? { ...j, ...changes } : j));
+  }, []);
+
+  const startJob = useCallback(async (job: Job) => {
+    const task = tasks.current.get(job.id);
+    if (!task) return;
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    updateJob(job.id, { status: 'running', startedAt: Date.now() });
+    let changes: Partial<Job>;
+    try {
+      changes = { status: 'done', versionId: await task.run(controller.signal) };
+    } catch (err) {
+      if (!(err instanceof CancelledError)) console.error(err);
+      changes = err instanceof CancelledError ? { status: 'cancelled' } : {
+        status: 'error',
+        error: err instanceof ImageServiceError
+          ? { message: err.message, guidance: err.guidance }
+          : { message: err instanceof Error ? err.message : 'The request failed.' },
+      };
+    }
+    // Free the slot before the update that lets the next job start.
+    controllers.current.delete(job.id);
+    updateJob(job.id, { ...changes, finishedAt: Date.now() });
+  }, [updateJob]);
+
+  // Jobs that were just started are still 'queued' in this render, hence the controllers check.
+  useEffect(() => {
+    const free = concurrency - controllers.current.size;
+    if (free <= 0) return;
+    jobs
+      .filter(j => j.status === 'queued' && !controllers.current.has(j.id))
+      .slice(0, free)
+      .forEach(startJob);
+  }, [jobs, concurrency, startJob]);
+
+  const enqueue = useCallback((kind: JobKind, label: string, run: JobTask, onSkip?: () => void): string => {
+    const id = crypto.randomUUID();
+    tasks.current.set(id, { run, onSkip });
+    setJobs(prev => [...prev, {
+      id,
+      kind,
+      label,
+      status: 'queued',
+      queuedAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      error: null,
+      versionId: null,
+    }]);
+    return id;
+  }, []);
+
+  const cancelJob = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort(new CancelledError());
+      return;
+    }
+    if (jobsRef.current.find(j => j.id === id)?.status !== 'queued') return;
+    updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+    tasks.current.get(id)?.onSkip?.();
+  }, [updateJob]);
+
+  const retryJob = useCallback((id: string) => {
+    setJobs(prev => prev.map(j => j.id === id && (j.status === 'error' || j.status === 'cancelled')
+      ? { ...j, status: 'queued', queuedAt: Date.now(), startedAt: null, finishedAt: null, error: null }
+      : j));
+  }, []);
+
+  const dismissJob = useCallback((id: string) => {
+    setJobs(prev => {
+      const job = prev.find(j => j.id === id);
+      if (!job || !isFinished(job)) return prev;
+      tasks.current.delete(id);
+      return prev.filter(j => j.id !== id);
+    });
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setJobs(prev => {
+      prev.filter(isFinished).forEach(j => tasks.current.delete(j.id));
+      return prev.filter(j => !isFinished(j));
+    });
+  }, []);
+
+  return { jobs, enqueue, cancelJob, retryJob, dismissJob, clearFinished };
+};
@@ -0,0 +1,90 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { ShortcutBindings } from '../types';
+import { DEFAULT_SHORTCUT_BINDINGS } from '../constants';
+import { eventToCombo, isEditableTarget, loadShortcutBindings, saveShortcutBindings } from '../utils/shortcuts';
+
+export interface ShortcutAction {
+  // Key into the bindings; the same id in a higher layer shadows the one below.
+  id: string;
+  label: string;
+  group: string;
+  run: () => void;
+  enabled?: boolean;
+  // Also fires while a text field has focus. Only sensible for combos with a modifier.
+  allowInInputs?: boolean;
+  // Stays reachable below modal layers, like the command palette itself.
+  global?: boolean;
+}
+
+interface Layer {
+  actions: { current: ShortcutAction[] };
+  modal: boolean;
+}
+
+// Every mounted component that offers actions adds a layer; later layers sit on top.
+const layers: Layer[] = [];
+
+/**
+ * Registers actions for as long as the calling component is mounted. A modal layer hides
+ * the layers below it, so e.g. tool keys in the editor don't also trigger the page behind it.
+ */
+export const useShortcuts = (actions: ShortcutAction[], modal = false) => {
+  const current = useRef(actions);
+  current.current = actions;
+
+  useEffect(() => {
+    const layer = { actions: current, modal };
+    layers.push(layer);
+    return () => {
+      layers.splice(layers.indexOf(layer), 1);
+    };
+  }, [modal]);
+};
+
+/** Actions reachable right now, topmost first. */
+export const getActiveActions = (): ShortcutAction[] => {
+  const active = new Map<string, ShortcutAction>();
+  let hidden = false;
+  for (let i = layers.length - 1; i >= 0; i--) {
+    layers[i].actions.current.forEach(action => {
+      if (!active.has(action.id) && (!hidden || action.global)) active.set(action.id, action);
+    });
+    hidden ||= layers[i].modal;
+  }
+  return [...active.values()];
+};
+
+/** Dispatches key presses to the active actions. Mount once, near the root. */
+export const useShortcutListener = (bindings: ShortcutBindings) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      const action = getActiveActions().find(a => bindings[a.id]?.includes(combo));
+      if (!action || action.enabled === false) return;
+      if (isEditableTarget(e.target) && !action.allowInInputs) return;
+      e.preventDefault();
+      action.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings]);
+};
+
+export const useShortcutBindings = () => {
+  const [bindings, setBindings] = useState<ShortcutBindings>(loadShortcutBindings);
+
+  const update = useCallback((next: ShortcutBindings) => {
+    setBindings(next);
+    saveShortcutBindings(next);
+  }, []);
+
+  const setBinding = useCallback((id: string, combos: string[]) => {
+    update({ ...bindings, [id]: combos });
+  }, [bindings, update]);
+
+  const resetBindings = useCallback(() => update(DEFAULT_SHORTCUT_BINDINGS), [update]);
+
+  return { bindings, setBinding, resetBindings };
+};
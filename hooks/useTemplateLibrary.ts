@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PromptTemplate } from '../types';
+import { DEFAULT_TEMPLATES } from '../constants';
+import { loadTemplates, saveTemplates } from '../services/templateLibrary';
+
+export const useTemplateLibrary = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+
+  useEffect(() => {
+    saveTemplates(templates);
+  }, [templates]);
+
+  const addTemplate = useCallback((template: Omit<PromptTemplate, 'id'>): PromptTemplate => {
+    const created = { ...template, id: crypto.randomUUID() };
+    setTemplates(prev => [...prev, created]);
+    return created;
+  }, []);
+
+  const updateTemplate = useCallback((id: string, changes: Partial<Omit<PromptTemplate, 'id'>>) => {
+    setTemplates(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t));
+  }, []);
+
+  const removeTemplate = useCallback((id: string) => {
+    setTemplates(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  // Imported templates replace ones with the same id, so re-importing a shared pack updates it.
+  const importTemplates = useCallback((imported: PromptTemplate[]) => {
+    setTemplates(prev => {
+      const importedIds = new Set(imported.map(t => t.id));
+      return [...prev.filter(t => !importedIds.has(t.id)), ...imported];
+    });
+  }, []);
+
+  const resetToDefaults = useCallback(() => {
+    setTemplates(DEFAULT_TEMPLATES);
+  }, []);
+
+  return { templates, addTemplate, updateTemplate, removeTemplate, importTemplates, resetToDefaults };
+};
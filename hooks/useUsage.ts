@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getUsageState, subscribeUsage } from '../services/usageTracker';
+
+/** The usage history, prices and budget, updated as requests finish. */
+export const useUsage = () => useSyncExternalStore(subscribeUsage, getUsageState);
@@ -0,0 +1,65 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { RefinementContext, ResultVersion } from '../types';
+import { DEFAULT_OUTPUT_SETTINGS } from '../constants';
+
+export type NewVersion = Omit<ResultVersion, 'id' | 'createdAt'>;
+
+export const useVersionTree = () => {
+  const [versions, setVersions] = useState<ResultVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
+
+  const currentVersion = useMemo(
+    () => versions.find(v => v.id === currentVersionId) || null,
+    [versions, currentVersionId]
+  );
+
+  // `select: false` adds the version to the history without showing it.
+  const addVersion = useCallback((version: NewVersion, select = true): ResultVersion => {
+    const created: ResultVersion = { ...version, id: crypto.randomUUID(), createdAt: Date.now() };
+    setVersions(prev => [...prev, created]);
+    if (select) setCurrentVersionId(created.id);
+    return created;
+  }, []);
+
+  const selectVersion = useCallback((id: string | null) => {
+    setCurrentVersionId(id);
+  }, []);
+
+  // Replaces the whole tree, e.g. when a saved workspace is loaded.
+  const resetVersions = useCallback((next: ResultVersion[], nextCurrentId: string | null) => {
+    setVersions(next);
+    setCurrentVersionId(next.some(v => v.id === nextCurrentId) ? nextCurrentId : null);
+  }, []);
+
+  return { versions, currentVersion, currentVersionId, addVersion, selectVersion, resetVersions };
+};
+
+// Returns the chain from the root down to (and including) the given version.
+export const getLineage = (versions: ResultVersion[], id: string): ResultVersion[] => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const lineage: ResultVersion[] = [];
+  let node = byId.get(id);
+  while (node) {
+    lineage.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return lineage;
+};
+
+// Steps made outside this conversation are described as such, so the model knows where they came from.
+const describeTurn = (version: ResultVersion): string =>
+  version.kind === 'edit' ? `(Inpainted the masked region: ${version.prompt})`
+    : version.kind === 'finish' ? `(Adjusted locally: ${version.prompt})`
+    : version.prompt;
+
+/** The conversation that led to a version, for sending a follow-up instruction on top of it. */
+export const getRefinementContext = (versions: ResultVersion[], id: string): RefinementContext => {
+  const lineage = getLineage(versions, id);
+  return {
+    sources: lineage[0]?.inputs ?? [],
+    prompt: lineage[0]?.prompt ?? '',
+    // Versions made before recipes were recorded are described without a legend or output shape.
+    options: lineage[0]?.recipe?.options ?? { annotationMode: 'flattened', legend: [], output: DEFAULT_OUTPUT_SETTINGS },
+    turns: lineage.map(version => ({ instruction: describeTurn(version), image: version.image })),
+  };
+};
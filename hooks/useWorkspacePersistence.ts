@@ -0,0 +1,140 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { SavedSession, SessionSummary, WorkspaceSnapshot } from '../types';
+import { ACTIVE_SESSION_STORAGE_KEY, AUTOSAVE_DELAY_MS } from '../constants';
+import {
+  listSessions,
+  loadSession,
+  saveSession,
+  saveSessionWorkspace,
+  renameSession as storeSessionName,
+  deleteSession as removeSession,
+} from '../services/storageService';
+
+const defaultSessionName = () => `Session ${new Date().toLocaleString()}`;
+
+/**
+ * Keeps the given workspace continuously saved to IndexedDB under the active session,
+ * and restores the last active session on load.
+ */
+export const useWorkspacePersistence = (
+  workspace: WorkspaceSnapshot,
+  onRestore: (workspace: WorkspaceSnapshot) => void,
+  createEmptyWorkspace: () => WorkspaceSnapshot
+) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState<boolean>(true);
+
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+  const hasInitialized = useRef(false);
+
+  const refreshSessions = useCallback(async () => {
+    setSessions(await listSessions());
+  }, []);
+
+  const activate = useCallback((session: SavedSession) => {
+    onRestoreRef.current(session.workspace);
+    setActiveSessionId(session.id);
+    localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, session.id);
+  }, []);
+
+  // The name is read from storage as part of the save, so a pending autosave cannot undo a rename.
+  const persist = useCallback(async (id: string, snapshot: WorkspaceSnapshot) => {
+    await saveSessionWorkspace(id, snapshot, defaultSessionName());
+    await refreshSessions();
+  }, [refreshSessions]);
+
+  useEffect(() => {
+    if (hasInitialized.current) return;
+    hasInitialized.current = true;
+
+    (async () => {
+      const all = await listSessions();
+      const storedId = localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+      const candidateId = all.some(s => s.id === storedId) ? storedId : all[0]?.id;
+      const session = candidateId ? await loadSession(candidateId) : undefined;
+      if (session) {
+        activate(session);
+      } else {
+        const created: SavedSession = {
+          id: crypto.randomUUID(),
+          name: defaultSessionName(),
+          updatedAt: Date.now(),
+          workspace: workspaceRef.current,
+        };
+        await saveSession(created);
+        activate(created);
+      }
+      await refreshSessions();
+    })()
+      .catch(err => console.error('Could not restore the saved workspace.', err))
+      .finally(() => setIsRestoring(false));
+  }, [activate, refreshSessions]);
+
+  useEffect(() => {
+    if (isRestoring || !activeSessionId) return;
+    const handle = setTimeout(() => {
+      persist(activeSessionId, workspace).catch(err => console.error('Autosave failed.', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(handle);
+  }, [workspace, activeSessionId, isRestoring, persist]);
+
+  const switchSession = useCallback(async (id: string) => {
+    if (id === activeSessionId) return;
+    if (activeSessionId) {
+      await persist(activeSessionId, workspaceRef.current);
+    }
+    const session = await loadSession(id);
+    if (session) activate(session);
+  }, [activeSessionId, persist, activate]);
+
+  const startNewSession = useCallback(async (name: string) => {
+    const created: SavedSession = {
+      id: crypto.randomUUID(),
+      name,
+      updatedAt: Date.now(),
+      workspace: createEmptyWorkspace(),
+    };
+    await saveSession(created);
+    activate(created);
+    await refreshSessions();
+  }, [activate, refreshSessions, createEmptyWorkspace]);
+
+  const createSession = useCallback(async (name: string = defaultSessionName()) => {
+    if (activeSessionId) {
+      await persist(activeSessionId, workspaceRef.current);
+    }
+    await startNewSession(name);
+  }, [activeSessionId, persist, startNewSession]);
+
+  const renameSession = useCallback(async (id: string, name: string) => {
+    await storeSessionName(id, name);
+    await refreshSessions();
+  }, [refreshSessions]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    await removeSession(id);
+    const remaining = await listSessions();
+    setSessions(remaining);
+    if (id !== activeSessionId) return;
+    const next = remaining[0] ? await loadSession(remaining[0].id) : undefined;
+    if (next) {
+      activate(next);
+    } else {
+      await startNewSession(defaultSessionName());
+    }
+  }, [activeSessionId, activate, startNewSession]);
+
+  return {
+    sessions,
+    activeSessionId,
+    isRestoring,
+    switchSession,
+    createSession,
+    renameSession,
+    deleteSession,
+  };
+};
@@ -0,0 +1,122 @@
+// Errors thrown by image providers and the request layer around them. Providers translate
+// their SDK's failures into these classes so the UI can react to the kind of failure
+// rather than to a provider-specific message.
+
+export class ImageServiceError extends Error {
+  /** Whether repeating the same request later could succeed. */
+  readonly retryable: boolean;
+  /** What the user can do about it, shown under the error message. */
+  readonly guidance: string;
+
+  constructor(message: string, guidance: string, retryable: boolean, cause?: unknown) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.guidance = guidance;
+    this.retryable = retryable;
+  }
+}
+
+export class CancelledError extends ImageServiceError {
+  constructor() {
+    super('The request was cancelled.', '', false);
+  }
+}
+
+export class QuotaError extends ImageServiceError {
+  constructor(readonly retryAfterMs: number | null, cause?: unknown) {
+    super(
+      'The image service rate limit or quota was reached.',
+      'Wait a minute before trying again, generate fewer candidates at once, or check the usage limits of your API plan.',
+      true,
+      cause
+    );
+  }
+}
+
+export class NetworkError extends ImageServiceError {
+  constructor(message = 'Could not reach the image service.', guidance = 'Check your internet connection and try again.', cause?: unknown) {
+    super(message, guidance, true, cause);
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(readonly timeoutMs: number) {
+    super(
+      `The image service did not respond within ${Math.round(timeoutMs / 1000)} seconds.`,
+      'The service may be busy. Try again, or allow more time in the request settings.'
+    );
+  }
+}
+
+export class ServiceUnavailableError extends ImageServiceError {
+  constructor(status: number, cause?: unknown) {
+    super(
+      `The image service is temporarily unavailable (HTTP ${status}).`,
+      'This is usually a short outage on the provider side. Try again in a few moments.',
+      true,
+      cause
+    );
+  }
+}
+
+export class BudgetExceededError extends ImageServiceError {
+  constructor(spent: string, limit: string) {
+    super(
+      `Today's estimated spend (${spent}) has reached the daily budget of ${limit}.`,
+      'New requests are blocked until tomorrow. Raise the budget, or switch it to warn only, in the usage panel.',
+      false
+    );
+  }
+}
+
+export class InvalidInputError extends ImageServiceError {
+  constructor(message: string, cause?: unknown) {
+    super(
+      message,
+      'Check that the prompt is not empty and that every image is a valid PNG, JPEG or WebP file within the upload limits.',
+      false,
+      cause
+    );
+  }
+}
+
+export class AuthError extends ImageServiceError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'Check the API key configured for this provider, or switch to another provider.', false, cause);
+  }
+}
+
+/** The model answered, but without an image. `modelText` is whatever it said instead. */
+export class NoImageError extends ImageServiceError {
+  constructor(
+    readonly finishReason: string | null,
+    readonly modelText: string | null,
+    message = 'The model did not return an image.',
+    guidance = 'Try asking for the image explicitly, e.g. "Generate an image of …", or simplify the prompt.'
+  ) {
+    super(modelText ? `${message} It replied: "${modelText}"` : message, guidance, false);
+  }
+}
+
+export class SafetyBlockedError extends NoImageError {
+  constructor(reason: string, modelText: string | null) {
+    super(
+      reason,
+      modelText,
+      `The request was blocked by the model's safety filters (${reason}).`,
+      'Rephrase the prompt, avoid real people\'s identities and sensitive content, or try different source images.'
+    );
+  }
+}
+
+/**
+ * Maps failures that look the same for every provider (aborts, offline, failed fetches);
+ * anything else is returned unchanged.
+ */
+export const normalizeError = (err: unknown): unknown => {
+  if (err instanceof ImageServiceError) return err;
+  if (err instanceof DOMException && err.name === 'AbortError') return new CancelledError();
+  if (err instanceof TypeError && /fetch|network/i.test(err.message)) return new NetworkError(undefined, undefined, err);
+  if (!navigator.onLine) return new NetworkError('You appear to be offline.', undefined, err);
+  return err;
+};
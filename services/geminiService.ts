@@ -1,12 +1,50 @@
-
-import { GoogleGenAI, Modality, type GenerateContentResponse } from "@google/genai";
-import type { UploadedImage } from '../types';
-
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { ApiError, GoogleGenAI, Modality, type Content, type GenerateContentResponse, type Part } from "@google/genai";
+import type { GeneratedImage, GenerationOptions, ImageProvider, RefinementContext, RequestOptions, UploadedImage } from '../types';
+import { GEMINI_IMAGE_MODEL, REFINE_CONTEXT_TURNS } from '../constants';
+import {
+  buildScenePrompt,
+  buildEnhancePrompt,
+  buildEditPrompt,
+  buildInpaintPrompt,
+  buildRefineContextPrompt,
+  buildRefinePrompt,
+  buildSkippedTurnsNote,
+} from './prompts';
+import {
+  AuthError,
+  InvalidInputError,
+  NoImageError,
+  QuotaError,
+  SafetyBlockedError,
+  ServiceUnavailableError,
+  normalizeError,
+} from './errors';
+
+// Finish reasons that mean a policy filter stopped the output, as opposed to the model
+// simply answering in text.
+const SAFETY_FINISH_REASONS = new Set([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'RECITATION',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+]);
+
+let ai: GoogleGenAI | null = null;
+
+// The client is created on first use so the app can load (and fall back to another
+// provider) when no API key is configured.
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new AuthError("API_KEY environment variable not set");
+  }
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
+};
 
 const fileToGenerativePart = (base64: string, mimeType: string) => {
   return {
@@ -17,73 +55,174 @@ const fileToGenerativePart = (base64: string, mimeType: string) => {
   };
 };
 
-const extractImage = (response: GenerateContentResponse) => {
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
+const extractImage = (response: GenerateContentResponse): GeneratedImage => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyBlockedError(blockReason, response.promptFeedback?.blockReasonMessage ?? null);
+    }
+    const candidate = response.candidates?.[0];
+    for (const part of candidate?.content?.parts || []) {
+        if (part.inlineData?.data && part.inlineData.mimeType) {
             return {
                 base64: part.inlineData.data,
                 mimeType: part.inlineData.mimeType,
             };
         }
     }
-    throw new Error("No image found in the response");
+    // Without an image the model usually explains itself in a text part.
+    const text = candidate?.content?.parts?.map(part => part.text ?? '').join(' ').trim() || null;
+    const finishReason = candidate?.finishReason ?? null;
+    if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+        throw new SafetyBlockedError(finishReason, candidate?.finishMessage ?? text);
+    }
+    throw new NoImageError(finishReason, text);
 };
 
-export async function generateScene(
-  images: UploadedImage[],
-  prompt: string
-): Promise<{ base64: string; mimeType: string }> {
-  const validImages = images.filter(img => (img.annotatedBase64 || img.base64) && img.mimeType);
-  if (validImages.length === 0) {
-    throw new Error("At least one image is required to generate a scene.");
-  }
+// Rate-limit responses carry a RetryInfo detail such as `"retryDelay": "17s"`.
+const parseRetryDelay = (message: string): number | null => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(Number(match[1]) * 1000) : null;
+};
 
-  const imageParts = validImages.map(img => fileToGenerativePart(img.annotatedBase64 || img.base64!, img.mimeType!));
+const classifyError = (err: unknown): unknown => {
+  if (!(err instanceof ApiError)) return normalizeError(err);
+  if (err.status === 429) return new QuotaError(parseRetryDelay(err.message), err);
+  if (err.status === 401 || err.status === 403) return new AuthError('The Gemini API rejected the API key.', err);
+  if (err.status === 400) return new InvalidInputError('The Gemini API rejected the request as invalid.', err);
+  if (err.status >= 500) return new ServiceUnavailableError(err.status, err);
+  return err;
+};
 
-  const textPrompt = `You are an expert digital artist specializing in hyper-realistic image composition.
-  You will be provided with ${validImages.length} source images. They are labeled sequentially as Image 1, Image 2, and so on.
-  Your task is to follow the user's instructions to seamlessly blend these images into a single, new, cohesive image.
+interface ImageRequestConfig {
+  seed?: number;
+  aspectRatio?: string;
+}
 
-  IMPORTANT: Some images may have colored drawings (lines, circles, boxes) on them. These annotations are important visual instructions from the user. Use them as a primary guide for positioning, modifying, or composing elements from the source images. For example, a circle might indicate an area of focus, or a line might show a desired path or position.
+const userTurn = (parts: Part[]): Content => ({ role: 'user', parts });
+const modelTurn = (parts: Part[]): Content => ({ role: 'model', parts });
+
+const requestImage = async (contents: Content[], imageConfig: ImageRequestConfig, request?: RequestOptions): Promise<GeneratedImage> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await getClient().models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents,
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        seed: imageConfig.seed,
+        imageConfig: imageConfig.aspectRatio ? { aspectRatio: imageConfig.aspectRatio } : undefined,
+        abortSignal: request?.signal,
+      },
+    });
+  } catch (err) {
+    throw classifyError(err);
+  }
 
-  Pay close attention to perspective, lighting, shadows, and textures to ensure the final result is photorealistic.
-  Retain as much detail as possible from the original images.
+  // Billed even when no image comes back, so report it before looking for one.
+  const usage = response.usageMetadata;
+  request?.onUsage?.({ inputTokens: usage?.promptTokenCount ?? 0, outputTokens: usage?.candidatesTokenCount ?? 0 });
+  return extractImage(response);
+};
 
-  User Instructions: "${prompt}"
+// In overlay mode each annotated source is sent clean, followed by its annotation layer.
+const sourceImageParts = (image: UploadedImage, options: GenerationOptions) => {
+  if (options.annotationMode === 'overlay') {
+    const parts = [fileToGenerativePart(image.base64!, image.mimeType!)];
+    if (image.annotationOverlayBase64) {
+      parts.push(fileToGenerativePart(image.annotationOverlayBase64, 'image/png'));
+    }
+    return parts;
+  }
+  return [fileToGenerativePart(image.annotatedBase64 || image.base64!, image.mimeType!)];
+};
 
-  Generate only the final blended image without any text explanation.`;
+export async function generateScene(
+  images: UploadedImage[],
+  prompt: string,
+  options: GenerationOptions,
+  request?: RequestOptions
+): Promise<GeneratedImage> {
+  const validImages = images.filter(img => img.base64 && img.mimeType);
+  if (validImages.length === 0) {
+    throw new InvalidInputError("At least one image is required to generate a scene.");
+  }
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image-preview',
-    contents: {
-      parts: [...imageParts, { text: textPrompt }],
-    },
-    config: {
-      responseModalities: [Modality.IMAGE, Modality.TEXT],
-    },
-  });
+  const imageParts = validImages.flatMap(img => sourceImageParts(img, options));
 
-  return extractImage(response);
+  return requestImage([userTurn([...imageParts, { text: buildScenePrompt(validImages, prompt, options) }])], {
+    seed: options.seed,
+    aspectRatio: options.output.aspectRatio === 'auto' ? undefined : options.output.aspectRatio,
+  }, request);
 }
 
 export async function enhanceImage(
-  image: { base64: string, mimeType: string },
-  enhancementPrompt: string
-): Promise<{ base64: string; mimeType: string }> {
+  image: GeneratedImage,
+  enhancementPrompt: string,
+  request?: RequestOptions
+): Promise<GeneratedImage> {
+  const imagePart = fileToGenerativePart(image.base64, image.mimeType);
+  return requestImage([userTurn([imagePart, { text: buildEnhancePrompt(enhancementPrompt) }])], {}, request);
+}
+
+export async function editImage(
+  image: GeneratedImage,
+  editPrompt: string,
+  request?: RequestOptions
+): Promise<GeneratedImage> {
   const imagePart = fileToGenerativePart(image.base64, image.mimeType);
+  return requestImage([userTurn([imagePart, { text: buildEditPrompt(editPrompt) }])], {}, request);
+}
 
-  const textPrompt = `You are a professional photo editor. Enhance the provided image based on the following instruction: "${enhancementPrompt}".
-  The output should only be the new, enhanced image.`;
+export async function inpaintImage(
+  image: GeneratedImage,
+  mask: GeneratedImage,
+  instruction: string,
+  request?: RequestOptions
+): Promise<GeneratedImage> {
+  return requestImage([userTurn([
+    fileToGenerativePart(image.base64, image.mimeType),
+    fileToGenerativePart(mask.base64, mask.mimeType),
+    { text: buildInpaintPrompt(instruction) },
+  ])], {}, request);
+}
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image-preview',
-    contents: {
-      parts: [imagePart, { text: textPrompt }],
-    },
-    config: {
-      responseModalities: [Modality.IMAGE, Modality.TEXT],
-    },
-  });
-  
-  return extractImage(response);
-}
\ No newline at end of file
+// Replays the conversation as alternating turns: the sources and scene prompt, then each
+// instruction followed by the image it produced, then the new instruction.
+export async function refineImage(
+  context: RefinementContext,
+  instruction: string,
+  request?: RequestOptions
+): Promise<GeneratedImage> {
+  const [first, ...later] = context.turns;
+  if (!first) {
+    throw new InvalidInputError('There is no image to refine yet.');
+  }
+  const recent = later.slice(-REFINE_CONTEXT_TURNS);
+  const skipped = later.slice(0, later.length - recent.length).map(turn => turn.instruction);
+
+  const contents: Content[] = [
+    userTurn([
+      ...context.sources.map(source => fileToGenerativePart(source.base64, source.mimeType)),
+      { text: buildRefineContextPrompt(context.sources, context.prompt, context.options) },
+    ]),
+    modelTurn([fileToGenerativePart(first.image.base64, first.image.mimeType)]),
+    ...recent.flatMap((turn, i) => [
+      userTurn([{ text: i === 0 && skipped.length > 0 ? `${buildSkippedTurnsNote(skipped)}\n${turn.instruction}` : turn.instruction }]),
+      modelTurn([fileToGenerativePart(turn.image.base64, turn.image.mimeType)]),
+    ]),
+    userTurn([{ text: buildRefinePrompt(instruction) }]),
+  ];
+  return requestImage(contents, {}, request);
+}
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  model: GEMINI_IMAGE_MODEL,
+  isConfigured: () => Boolean(process.env.API_KEY),
+  generateScene,
+  enhanceImage,
+  editImage,
+  inpaintImage,
+  refineImage,
+};
@@ -0,0 +1,69 @@
+import type { GeneratedImage, GenerationOptions, ImageProvider, RefinementContext, RequestOptions, RequestSettings, UploadedImage, UsageOperation } from '../types';
+import { PROVIDER_STORAGE_KEY } from '../constants';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { loadRequestSettings, runWithPolicy, saveRequestSettings } from './requestPolicy';
+import { assertWithinBudget, trackUsage } from './usageTracker';
+import { conformImage } from '../utils/output';
+
+// New backends only need to implement ImageProvider and be listed here.
+export const providers: ImageProvider[] = [geminiProvider, mockProvider];
+
+const findProvider = (id: string | null | undefined) => providers.find(p => p.id === id);
+
+const resolveInitialProvider = (): ImageProvider => {
+  const stored = findProvider(localStorage.getItem(PROVIDER_STORAGE_KEY));
+  if (stored?.isConfigured()) return stored;
+  const fromEnv = findProvider(process.env.IMAGE_PROVIDER);
+  if (fromEnv?.isConfigured()) return fromEnv;
+  return providers.find(p => p.isConfigured()) ?? mockProvider;
+};
+
+let activeProvider: ImageProvider = resolveInitialProvider();
+
+export const getActiveProvider = (): ImageProvider => activeProvider;
+
+export const setActiveProvider = (id: string): ImageProvider => {
+  const provider = findProvider(id);
+  if (!provider) {
+    throw new Error(`Unknown image provider "${id}".`);
+  }
+  activeProvider = provider;
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  return provider;
+};
+
+let requestSettings: RequestSettings = loadRequestSettings();
+
+export const getRequestSettings = (): RequestSettings => requestSettings;
+
+export const setRequestSettings = (settings: RequestSettings) => {
+  requestSettings = settings;
+  saveRequestSettings(settings);
+};
+
+// Every call goes through the same timeout/retry policy; `request.signal` cancels it.
+// Each call is also checked against the daily budget and recorded in the usage history.
+const run = async <T>(operation: UsageOperation, task: (request: RequestOptions) => Promise<T>, request?: RequestOptions): Promise<T> => {
+  assertWithinBudget();
+  return trackUsage(operation, activeProvider, onUsage =>
+    runWithPolicy(signal => task({ signal, onUsage }), requestSettings, request?.signal)
+  );
+};
+
+// Providers only ask for the output shape; it is enforced here so every backend matches.
+export const generateScene = (images: UploadedImage[], prompt: string, options: GenerationOptions, request?: RequestOptions): Promise<GeneratedImage> =>
+  run('generate', req => activeProvider.generateScene(images, prompt, options, req), request)
+    .then(result => conformImage(result, options.output));
+
+export const enhanceImage = (image: GeneratedImage, enhancementPrompt: string, request?: RequestOptions): Promise<GeneratedImage> =>
+  run('enhance', req => activeProvider.enhanceImage(image, enhancementPrompt, req), request);
+
+export const editImage = (image: GeneratedImage, editPrompt: string, request?: RequestOptions): Promise<GeneratedImage> =>
+  run('edit', req => activeProvider.editImage(image, editPrompt, req), request);
+
+export const inpaintImage = (image: GeneratedImage, mask: GeneratedImage, instruction: string, request?: RequestOptions): Promise<GeneratedImage> =>
+  run('inpaint', req => activeProvider.inpaintImage(image, mask, instruction, req), request);
+
+export const refineImage = (context: RefinementContext, instruction: string, request?: RequestOptions): Promise<GeneratedImage> =>
+  run('refine', req => activeProvider.refineImage(context, instruction, req), request);
@@ -0,0 +1,180 @@
+import type { GeneratedImage, GenerationOptions, ImageProvider, RefinementContext, RequestOptions, UploadedImage } from '../types';
+import { IMAGE_ROLES, MOCK_LATENCY_MS } from '../constants';
+import { InvalidInputError } from './errors';
+import { canvasToImage, createCanvas, hashString, loadImageElement, toDataUrl } from '../utils/imageUtils';
+
+const MOCK_WIDTH = 1280;
+const MOCK_HEIGHT = 720;
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const hueFor = (text: string) => hashString(text) % 360;
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Draws a translucent caption band with the tag and prompt along the bottom edge.
+const stampCaption = (ctx: CanvasRenderingContext2D, tag: string, text: string, hue: number) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.max(14, Math.round(width / 60));
+  const padding = fontSize;
+  ctx.font = `${fontSize}px sans-serif`;
+  const lines = wrapText(ctx, text, width - padding * 2).slice(0, 4);
+  const bandHeight = padding * 2 + fontSize * 1.3 * (lines.length + 1);
+
+  ctx.fillStyle = 'rgba(17, 24, 39, 0.8)';
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = `hsl(${hue}, 80%, 65%)`;
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.fillText(tag, padding, height - bandHeight + padding);
+
+  ctx.fillStyle = '#f3f4f6';
+  ctx.font = `${fontSize}px sans-serif`;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, padding, height - bandHeight + padding + fontSize * 1.3 * (i + 1));
+  });
+};
+
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.min(w / img.naturalWidth, h / img.naturalHeight);
+  const dw = img.naturalWidth * scale;
+  const dh = img.naturalHeight * scale;
+  ctx.drawImage(img, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+};
+
+const renderVariant = async (image: GeneratedImage, tag: string, instruction: string): Promise<GeneratedImage> => {
+  const img = await loadImageElement(toDataUrl(image));
+  const [canvas, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  const hue = hueFor(instruction);
+
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'soft-light';
+  ctx.fillStyle = `hsl(${hue}, 70%, 50%)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'source-over';
+  stampCaption(ctx, tag, instruction, hue);
+
+  return canvasToImage(canvas);
+};
+
+export async function generateScene(images: UploadedImage[], prompt: string, options: GenerationOptions, request?: RequestOptions): Promise<GeneratedImage> {
+  const validImages = images.filter(img => img.base64 && img.mimeType);
+  if (validImages.length === 0) {
+    throw new InvalidInputError("At least one image is required to generate a scene.");
+  }
+  await delay(MOCK_LATENCY_MS, request?.signal);
+
+  // Mirror what a real backend would receive: overlay mode keeps the sources clean.
+  const elements = await Promise.all(
+    validImages.map(img => {
+      const base64 = options.annotationMode === 'overlay' ? img.base64 : img.annotatedBase64 || img.base64;
+      return loadImageElement(`data:${img.mimeType};base64,${base64}`);
+    })
+  );
+  const [canvas, ctx] = createCanvas(MOCK_WIDTH, MOCK_HEIGHT);
+  const hue = hueFor(`${prompt}#${options.seed ?? 0}`);
+  ctx.fillStyle = `hsl(${hue}, 30%, 15%)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const cols = Math.ceil(Math.sqrt(elements.length));
+  const rows = Math.ceil(elements.length / cols);
+  const tileWidth = canvas.width / cols;
+  const tileHeight = canvas.height / rows;
+  elements.forEach((el, i) => {
+    const x = (i % cols) * tileWidth;
+    const y = Math.floor(i / cols) * tileHeight;
+    drawContained(ctx, el, x, y, tileWidth, tileHeight);
+
+    const source = validImages[i];
+    const role = IMAGE_ROLES.find(r => r.value === source.role);
+    const label = [`Image ${source.id}`, role?.value !== 'unspecified' ? role?.label : null, source.caption.trim() || null]
+      .filter(Boolean)
+      .join(' · ');
+    ctx.font = 'bold 16px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = 'rgba(17, 24, 39, 0.8)';
+    ctx.fillRect(x + 8, y + 8, ctx.measureText(label).width + 16, 28);
+    ctx.fillStyle = '#f3f4f6';
+    ctx.fillText(label, x + 16, y + 14);
+  });
+
+  const seedLabel = options.seed !== undefined ? ` · seed ${options.seed}` : '';
+  stampCaption(ctx, `MOCK SCENE · ${elements.length} input(s) · annotations ${options.annotationMode}${seedLabel}`, prompt, hue);
+  return canvasToImage(canvas);
+}
+
+export async function enhanceImage(image: GeneratedImage, enhancementPrompt: string, request?: RequestOptions): Promise<GeneratedImage> {
+  await delay(MOCK_LATENCY_MS, request?.signal);
+  return renderVariant(image, 'MOCK ENHANCE', enhancementPrompt);
+}
+
+export async function editImage(image: GeneratedImage, editPrompt: string, request?: RequestOptions): Promise<GeneratedImage> {
+  await delay(MOCK_LATENCY_MS, request?.signal);
+  return renderVariant(image, 'MOCK EDIT', editPrompt);
+}
+
+export async function inpaintImage(image: GeneratedImage, mask: GeneratedImage, instruction: string, request?: RequestOptions): Promise<GeneratedImage> {
+  await delay(MOCK_LATENCY_MS, request?.signal);
+  const [img, maskImg] = await Promise.all([loadImageElement(toDataUrl(image)), loadImageElement(toDataUrl(mask))]);
+  const [canvas, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  const hue = hueFor(instruction);
+
+  // Tint only the white part of the mask: multiply turns white into the tint and keeps black black,
+  // and screening the result onto the photo leaves the black (unmasked) area untouched.
+  const [tint, tintCtx] = createCanvas(canvas.width, canvas.height);
+  tintCtx.drawImage(maskImg, 0, 0, canvas.width, canvas.height);
+  tintCtx.globalCompositeOperation = 'multiply';
+  tintCtx.fillStyle = `hsl(${hue}, 80%, 50%)`;
+  tintCtx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'screen';
+  ctx.drawImage(tint, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+  stampCaption(ctx, 'MOCK INPAINT', instruction, hue);
+
+  return canvasToImage(canvas);
+}
+
+export async function refineImage(context: RefinementContext, instruction: string, request?: RequestOptions): Promise<GeneratedImage> {
+  const latest = context.turns[context.turns.length - 1];
+  if (!latest) {
+    throw new InvalidInputError('There is no image to refine yet.');
+  }
+  await delay(MOCK_LATENCY_MS, request?.signal);
+  return renderVariant(latest.image, `MOCK REFINE · turn ${context.turns.length}`, instruction);
+}
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  model: 'mock-compositor',
+  isConfigured: () => true,
+  generateScene,
+  enhanceImage,
+  editImage,
+  inpaintImage,
+  refineImage,
+};
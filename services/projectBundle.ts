@@ -0,0 +1,332 @@
+import type { Annotation, AnnotationHint, GeneratedImage, ImageRole, IngestReport, Point, ProjectSettings, ResultVersion, UploadedImage, VersionInput, VersionRecipe, WorkspaceSnapshot } from '../types';
+import { IMAGE_ROLES, PROJECT_BUNDLE_FORMAT, PROJECT_BUNDLE_VERSION } from '../constants';
+import { base64ToFile } from '../utils/fileUtils';
+import { isFiniteNumber, isGenerationOptions, isNullableString, isRecord, isVersionKind } from '../utils/guards';
+
+// On-disk shape of a .blendproj file. Whenever UploadedImage or ResultVersion change shape,
+// bump PROJECT_BUNDLE_VERSION, describe the new layout here and add a step to `migrate`
+// so that older bundles can still be opened.
+interface BundledImageV1 {
+  id: number;
+  fileName: string | null;
+  mimeType: string | null;
+  base64: string | null;
+  annotatedBase64: string | null;
+}
+
+type VersionInputV1 = Pick<VersionInput, 'slotId' | 'base64' | 'mimeType'>;
+
+type ResultVersionV1 = Omit<ResultVersion, 'inputs'> & { inputs: VersionInputV1[] };
+
+interface ProjectBundleV1 {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  settings: ProjectSettings;
+  prompt: string;
+  images: BundledImageV1[];
+  versions: ResultVersionV1[];
+  currentVersionId: string | null;
+}
+
+// v2: vector annotations and their rendered overlay are stored alongside the flattened image.
+interface BundledImageV2 extends BundledImageV1 {
+  annotationOverlayBase64: string | null;
+  annotations: Annotation[];
+}
+
+interface ProjectBundleV2 extends Omit<ProjectBundleV1, 'version' | 'images'> {
+  version: 2;
+  images: BundledImageV2[];
+}
+
+// v3: slots carry a semantic role and caption, and their number is no longer fixed.
+interface BundledImageV3 extends BundledImageV2 {
+  role: ImageRole;
+  caption: string;
+}
+
+interface ProjectBundleV3 extends Omit<ProjectBundleV2, 'version' | 'images'> {
+  version: 3;
+  images: BundledImageV3[];
+}
+
+// v4: slots record how the uploaded file was preprocessed (resizing, conversion).
+interface BundledImageV4 extends BundledImageV3 {
+  ingest: IngestReport | null;
+}
+
+interface ProjectBundleV4 extends Omit<ProjectBundleV3, 'version' | 'images'> {
+  version: 4;
+  images: BundledImageV4[];
+}
+
+// v5: text labels and arrows, plus the hints extracted from them for the prompt.
+interface BundledImageV5 extends BundledImageV4 {
+  annotationHints: AnnotationHint[];
+}
+
+interface ProjectBundleV5 extends Omit<ProjectBundleV4, 'version' | 'images'> {
+  version: 5;
+  images: BundledImageV5[];
+}
+
+// v6: versions may carry the recipe (provider, model, generation settings) they were made with.
+interface ProjectBundleV6 extends Omit<ProjectBundleV5, 'version'> {
+  version: 6;
+}
+
+// v7: version inputs record their number and what the scene prompt said about them.
+interface ProjectBundleV7 extends Omit<ProjectBundleV6, 'version' | 'versions'> {
+  version: 7;
+  versions: ResultVersion[];
+}
+
+type CurrentBundle = ProjectBundleV7;
+type BundledImage = BundledImageV5;
+
+export interface ProjectBundleContents {
+  workspace: WorkspaceSnapshot;
+  settings: ProjectSettings;
+}
+
+type AnyBundle = ProjectBundleV1 | ProjectBundleV2 | ProjectBundleV3 | ProjectBundleV4 | ProjectBundleV5 | ProjectBundleV6 | ProjectBundleV7;
+
+// Upgrades a bundle one version at a time until it has the current layout.
+function migrate(bundle: AnyBundle): CurrentBundle {
+  switch (bundle.version) {
+    case 1:
+      return migrate({
+        ...bundle,
+        version: 2,
+        images: bundle.images.map(image => ({ ...image, annotationOverlayBase64: null, annotations: [] })),
+      });
+    case 2:
+      return migrate({
+        ...bundle,
+        version: 3,
+        images: bundle.images.map(image => ({ ...image, role: 'unspecified', caption: '' })),
+      });
+    case 3:
+      return migrate({
+        ...bundle,
+        version: 4,
+        images: bundle.images.map(image => ({ ...image, ingest: null })),
+      });
+    // Older bundles cannot contain labels or arrows, so there is nothing to extract.
+    case 4:
+      return migrate({
+        ...bundle,
+        version: 5,
+        images: bundle.images.map(image => ({ ...image, annotationHints: [] })),
+      });
+    // The recipe is optional, so older versions simply go without.
+    case 5:
+      return migrate({ ...bundle, version: 6 });
+    // Slots used to be renumbered, so an input's slot id was the number the prompt gave it.
+    case 6:
+      return migrate({
+        ...bundle,
+        version: 7,
+        versions: bundle.versions.map(version => ({
+          ...version,
+          inputs: version.inputs.map(input => ({
+            ...input,
+            number: input.slotId,
+            role: 'unspecified',
+            caption: '',
+            annotations: [],
+            annotationHints: [],
+          })),
+        })),
+      });
+    case 7:
+      return bundle;
+  }
+}
+
+const toBundledImage = (image: UploadedImage): BundledImage => ({
+  id: image.id,
+  fileName: image.file?.name ?? null,
+  mimeType: image.mimeType,
+  base64: image.base64,
+  annotatedBase64: image.annotatedBase64,
+  annotationOverlayBase64: image.annotationOverlayBase64,
+  annotations: image.annotations,
+  annotationHints: image.annotationHints,
+  role: image.role,
+  caption: image.caption,
+  ingest: image.ingest,
+});
+
+const fromBundledImage = (image: BundledImage): UploadedImage => ({
+  id: image.id,
+  file: image.base64 && image.mimeType
+    ? base64ToFile(image.base64, image.mimeType, image.fileName || `image-${image.id}`)
+    : null,
+  base64: image.base64,
+  annotatedBase64: image.annotatedBase64,
+  annotationOverlayBase64: image.annotationOverlayBase64,
+  annotations: image.annotations,
+  annotationHints: image.annotationHints,
+  mimeType: image.mimeType,
+  role: image.role,
+  caption: image.caption,
+  ingest: image.ingest,
+});
+
+export function createProjectBundle(workspace: WorkspaceSnapshot, settings: ProjectSettings): Blob {
+  const bundle: CurrentBundle = {
+    format: PROJECT_BUNDLE_FORMAT,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+    prompt: workspace.prompt,
+    images: workspace.images.map(toBundledImage),
+    versions: workspace.versions,
+    currentVersionId: workspace.currentVersionId,
+  };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+}
+
+const INVALID_PROJECT = 'This file is not a valid Scene Blender project.';
+
+// Everything below checks the current layout, after migration, for each field the app reads.
+const isPoint = (value: unknown): value is Point =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.color !== 'string' ||
+    !isFiniteNumber(value.lineWidth) ||
+    (value.opacity !== undefined && !isFiniteNumber(value.opacity))
+  ) {
+    return false;
+  }
+  switch (value.type) {
+    case 'stroke':
+      return Array.isArray(value.points) && value.points.every(isPoint) &&
+        (value.pressures === undefined || (Array.isArray(value.pressures) && value.pressures.every(isFiniteNumber)));
+    case 'circle':
+      return isPoint(value.center) && isFiniteNumber(value.radius);
+    case 'box':
+      return [value.x, value.y, value.width, value.height].every(isFiniteNumber);
+    case 'arrow':
+      return isPoint(value.start) && isPoint(value.end);
+    case 'text':
+      return isPoint(value.position) && typeof value.text === 'string' && isFiniteNumber(value.fontSize);
+    default:
+      return false;
+  }
+};
+
+const isAnnotationHint = (value: unknown): value is AnnotationHint =>
+  isRecord(value) && (
+    (value.type === 'label' && typeof value.text === 'string' && isPoint(value.at)) ||
+    (value.type === 'arrow' && isPoint(value.from) && isPoint(value.to))
+  );
+
+const isImageRole = (value: unknown): value is ImageRole => IMAGE_ROLES.some(role => role.value === value);
+
+const isIngestReport = (value: unknown): value is IngestReport =>
+  isRecord(value) &&
+  typeof value.originalName === 'string' &&
+  typeof value.originalType === 'string' &&
+  [value.originalBytes, value.originalWidth, value.originalHeight, value.width, value.height, value.bytes].every(isFiniteNumber) &&
+  typeof value.resized === 'boolean' &&
+  typeof value.converted === 'boolean';
+
+// What slots and version inputs share: the drawings and what the prompt says about the image.
+const hasImageDetails = (value: Record<string, unknown>) =>
+  Array.isArray(value.annotations) && value.annotations.every(isAnnotation) &&
+  Array.isArray(value.annotationHints) && value.annotationHints.every(isAnnotationHint) &&
+  isImageRole(value.role) &&
+  typeof value.caption === 'string';
+
+const isBundledImage = (value: unknown): value is BundledImage =>
+  isRecord(value) &&
+  isFiniteNumber(value.id) &&
+  [value.fileName, value.mimeType, value.base64, value.annotatedBase64, value.annotationOverlayBase64].every(isNullableString) &&
+  hasImageDetails(value) &&
+  (value.ingest === null || isIngestReport(value.ingest));
+
+const isGeneratedImage = (value: unknown): value is GeneratedImage =>
+  isRecord(value) && typeof value.base64 === 'string' && typeof value.mimeType === 'string';
+
+const isVersionInput = (value: unknown): value is VersionInput =>
+  isRecord(value) &&
+  isGeneratedImage(value) &&
+  isFiniteNumber(value.slotId) &&
+  isFiniteNumber(value.number) &&
+  hasImageDetails(value);
+
+const isVersionRecipe = (value: unknown): value is VersionRecipe =>
+  isRecord(value) &&
+  typeof value.providerId === 'string' &&
+  typeof value.model === 'string' &&
+  (value.options === undefined || isGenerationOptions(value.options));
+
+const isResultVersion = (value: unknown): value is ResultVersion =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isNullableString(value.parentId) &&
+  isVersionKind(value.kind) &&
+  typeof value.prompt === 'string' &&
+  Array.isArray(value.inputs) && value.inputs.every(isVersionInput) &&
+  isGeneratedImage(value.image) &&
+  isFiniteNumber(value.createdAt) &&
+  (value.recipe === undefined || isVersionRecipe(value.recipe));
+
+const isCurrentBundle = (value: CurrentBundle) =>
+  isRecord(value.settings) &&
+  typeof value.settings.providerId === 'string' &&
+  typeof value.settings.model === 'string' &&
+  typeof value.prompt === 'string' &&
+  isNullableString(value.currentVersionId) &&
+  value.images.every(isBundledImage) &&
+  value.versions.every(isResultVersion);
+
+export function parseProjectBundle(text: string): ProjectBundleContents {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error(INVALID_PROJECT);
+  }
+  if (!isRecord(raw) || raw.format !== PROJECT_BUNDLE_FORMAT) {
+    throw new Error(INVALID_PROJECT);
+  }
+  const { version } = raw;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(INVALID_PROJECT);
+  }
+  if (version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`This project was saved by a newer version of Scene Blender (format v${version}).`);
+  }
+  // Enough for the migrations to run, which only rewrite the images and the version inputs.
+  if (
+    !Array.isArray(raw.images) ||
+    !raw.images.every(isRecord) ||
+    !Array.isArray(raw.versions) ||
+    !raw.versions.every(version => isRecord(version) && Array.isArray(version.inputs) && version.inputs.every(isRecord))
+  ) {
+    throw new Error(INVALID_PROJECT);
+  }
+
+  const current = migrate(raw as unknown as AnyBundle);
+  if (!isCurrentBundle(current)) {
+    throw new Error(INVALID_PROJECT);
+  }
+
+  return {
+    settings: current.settings,
+    workspace: {
+      images: current.images.map(fromBundledImage),
+      prompt: current.prompt,
+      versions: current.versions,
+      currentVersionId: current.currentVersionId,
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import type { AnnotationHint, GenerationOptions, LegendEntry, OutputShape, Point, UploadedImage, VersionInput } from '../types';
+import { IMAGE_ROLES } from '../constants';
+import { colorName, legendForAnnotations } from '../utils/legend';
+
+const DIRECTIONS = ['right', 'down-right', 'down', 'down-left', 'left', 'up-left', 'up', 'up-right'];
+
+const describePoint = (p: Point) => `(${Math.round(p.x * 100)}% from left, ${Math.round(p.y * 100)}% from top)`;
+
+const describeDirection = (from: Point, to: Point) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  return DIRECTIONS[(Math.round(angle / (Math.PI / 4)) + 8) % 8];
+};
+
+const describeHint = (hint: AnnotationHint): string =>
+  hint.type === 'label'
+    ? `text label "${hint.text}" at ${describePoint(hint.at)}`
+    : `arrow from ${describePoint(hint.from)} to ${describePoint(hint.to)}, pointing ${describeDirection(hint.from, hint.to)}`;
+
+const describeLegendEntry = (entry: LegendEntry) => `${colorName(entry.color)} (${entry.color}) means "${entry.meaning.trim()}"`;
+
+// What the scene prompt says about each source image.
+type SceneSource = Pick<UploadedImage, 'id' | 'role' | 'caption' | 'annotations' | 'annotationHints' | 'annotationOverlayBase64'>;
+
+const describeImage = (image: SceneSource, legend: LegendEntry[]): string => {
+  const role = IMAGE_ROLES.find(r => r.value === image.role);
+  const purpose = role && role.value !== 'unspecified' ? `${role.label} - ${role.description}.` : 'No specific role.';
+  const caption = image.caption.trim() ? ` User's note: "${image.caption.trim()}"` : '';
+  const hints = image.annotationHints.length > 0
+    ? `\n    Drawn on this image: ${image.annotationHints.map(describeHint).join('; ')}.`
+    : '';
+  const colorKey = legendForAnnotations(legend, image.annotations);
+  const colors = colorKey.length > 0
+    ? `\n    Color key for the drawings on this image: ${colorKey.map(describeLegendEntry).join('; ')}.`
+    : '';
+  return `- Image ${image.id}: ${purpose}${caption}${hints}${colors}`;
+};
+
+const hintNote = (images: SceneSource[]): string =>
+  images.some(img => img.annotationHints.length > 0)
+    ? `Text labels and arrows the user drew are listed above with their exact wording and position, so you don't have to read them from the pixels. Labels are instructions about the spot they are placed on (e.g. "put lamp here"); arrows point towards a target position or the direction a subject should face. Never render the labels or arrows themselves in the result.`
+    : '';
+
+const legendNote = (images: SceneSource[], legend: LegendEntry[]): string =>
+  images.some(img => legendForAnnotations(legend, img.annotations).length > 0)
+    ? `The user gives each drawing color a fixed meaning, listed above as the color key of each image. Interpret drawings in those colors exactly as the key says instead of guessing their purpose.`
+    : '';
+
+const outputNote = (output: OutputShape): string => {
+  const shape = output.aspectRatio === 'auto' ? '' : `a ${output.aspectRatio} (width:height) aspect ratio`;
+  const size = output.longEdge ? `about ${output.longEdge} pixels on its longer side` : '';
+  const requirements = [shape, size].filter(Boolean).join(' and ');
+  return requirements ? `Compose the result for ${requirements}, framing the whole scene within that shape.` : '';
+};
+
+const flattenedAnnotationNote = `IMPORTANT: Some images may have colored drawings (lines, circles, boxes, arrows, text labels) on them. These annotations are important visual instructions from the user. Use them as a primary guide for positioning, modifying, or composing elements from the source images. For example, a circle might indicate an area of focus, or a line might show a desired path or position.`;
+
+const overlayAnnotationNote = (images: SceneSource[]): string => {
+  const annotated = images
+    .map(img => (img.annotationOverlayBase64 ? `Image ${img.id}` : null))
+    .filter(Boolean);
+  if (annotated.length === 0) return '';
+  return `IMPORTANT: ${annotated.join(', ')} ${annotated.length === 1 ? 'is' : 'are each'} immediately followed by an extra transparent overlay image of the same size that contains only the user's colored drawings (lines, circles, boxes, arrows, text labels) for that source image. The overlays are not part of the scene and must not appear in the result. They are important visual instructions from the user: line them up with their source image and use them as a primary guide for positioning, modifying, or composing elements. For example, a circle might indicate an area of focus, or a line might show a desired path or position.`;
+};
+
+const sceneBrief = (images: SceneSource[], prompt: string, options: GenerationOptions): string =>
+  `You are an expert digital artist specializing in hyper-realistic image composition.
+  You will be provided with ${images.length} source images, in this order:
+  ${images.map(img => describeImage(img, options.legend)).join('\n  ')}
+  Your task is to follow the user's instructions to seamlessly blend these images into a single, new, cohesive image.
+
+  ${options.annotationMode === 'overlay' ? overlayAnnotationNote(images) : flattenedAnnotationNote}
+  ${hintNote(images)}
+  ${legendNote(images, options.legend)}
+  ${outputNote(options.output)}
+
+  Pay close attention to perspective, lighting, shadows, and textures to ensure the final result is photorealistic.
+  Retain as much detail as possible from the original images.
+
+  User Instructions: "${prompt}"`;
+
+export const buildScenePrompt = (images: SceneSource[], prompt: string, options: GenerationOptions): string =>
+  `${sceneBrief(images, prompt, options)}
+
+  Generate only the final blended image without any text explanation.`;
+
+export const buildEnhancePrompt = (enhancementPrompt: string): string =>
+  `You are a professional photo editor. Enhance the provided image based on the following instruction: "${enhancementPrompt}".
+  The output should only be the new, enhanced image.`;
+
+export const buildEditPrompt = (editPrompt: string): string =>
+  `You are a professional photo retoucher. Apply the following edit to the provided image: "${editPrompt}".
+  Change only what the instruction asks for and keep every other part of the image identical.
+  The output should only be the edited image.`;
+
+export const buildInpaintPrompt = (instruction: string): string =>
+  `You are a professional photo retoucher performing inpainting.
+  The first image is the photo to edit. The second image is a black-and-white mask of the same size: white marks the region to regenerate, black marks pixels that must stay exactly as they are.
+  Inside the white region, apply this instruction: "${instruction}".
+  Blend the regenerated region seamlessly with its surroundings, matching perspective, lighting, grain and color.
+  Return the full image at the original framing. The output should only be the edited image.`;
+
+// Repeats the scene prompt the first result was made with. The stored sources are the
+// flattened images, so their drawings are described as part of them in any annotation mode.
+export const buildRefineContextPrompt = (sources: VersionInput[], prompt: string, options: GenerationOptions): string =>
+  `${sceneBrief(
+    sources.map(source => ({ ...source, id: source.number, annotationOverlayBase64: null })),
+    prompt,
+    { ...options, annotationMode: 'flattened' }
+  )}
+  After your first result, the user will ask for follow-up changes one at a time. Each change applies to your most recent image.
+
+  Generate only the final blended image without any text explanation.`;
+
+export const buildSkippedTurnsNote = (instructions: string[]): string =>
+  `(Changes already applied before this point, whose images are not repeated here: ${instructions.map(i => `"${i}"`).join('; ')}.)`;
+
+export const buildRefinePrompt = (instruction: string): string =>
+  `Apply this change to your most recent image: "${instruction}".
+  Keep the original intent, the subjects from the source images and all earlier changes unless the instruction says otherwise, and change nothing else.
+  The output should only be the refined image.`;
@@ -0,0 +1,109 @@
+import type { Provenance, ResultVersion, VersionInput } from '../types';
+import { PROVENANCE_FORMAT, PROVENANCE_VERSION } from '../constants';
+import { getLineage } from '../hooks/useVersionTree';
+import { base64ToBlob } from '../utils/fileUtils';
+import { embedXmp, readXmp } from '../utils/imageMetadata';
+import { isGenerationOptions, isNullableString, isRecord, isVersionKind } from '../utils/guards';
+
+// Our own XMP namespace; the recipe is stored as JSON in its Recipe property.
+const RECIPE_NAMESPACE = 'urn:scene-blender:recipe:1.0/';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const hashImage = async (base64: string, mimeType: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', await base64ToBlob(base64, mimeType).arrayBuffer()));
+
+/** SHA-256 of each input, in the form a recipe records them. */
+export const hashInputs = (inputs: VersionInput[]): Promise<Provenance['sources']> =>
+  Promise.all(inputs.map(async input => ({
+    slotId: input.slotId,
+    mimeType: input.mimeType,
+    sha256: await hashImage(input.base64, input.mimeType),
+  })));
+
+/** Describes how `version` was made, from the generated scene through every later step. */
+export async function buildProvenance(versions: ResultVersion[], version: ResultVersion): Promise<Provenance> {
+  const [root, ...steps] = getLineage(versions, version.id);
+  return {
+    format: PROVENANCE_FORMAT,
+    version: PROVENANCE_VERSION,
+    createdAt: new Date(version.createdAt).toISOString(),
+    providerId: root.recipe?.providerId ?? null,
+    model: root.recipe?.model ?? null,
+    prompt: root.prompt,
+    sources: await hashInputs(root.inputs),
+    options: root.recipe?.options ?? null,
+    steps: steps.map(step => ({
+      kind: step.kind,
+      prompt: step.prompt,
+      model: step.recipe?.model ?? null,
+      createdAt: new Date(step.createdAt).toISOString(),
+    })),
+  };
+}
+
+// The standard properties let other tools (file managers, DAMs) show the basics.
+const toXmp = (provenance: Provenance): string => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:sb="${RECIPE_NAMESPACE}">
+   <xmp:CreatorTool>${escapeXml(`Scene Blender${provenance.model ? ` (${provenance.model})` : ''}`)}</xmp:CreatorTool>
+   <xmp:CreateDate>${provenance.createdAt}</xmp:CreateDate>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.prompt)}</rdf:li></rdf:Alt></dc:description>
+   <sb:Recipe>${escapeXml(JSON.stringify(provenance))}</sb:Recipe>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+
+const isSource = (value: unknown): value is Provenance['sources'][number] =>
+  isRecord(value) && typeof value.slotId === 'number' && typeof value.mimeType === 'string' && typeof value.sha256 === 'string';
+
+const isStep = (value: unknown): value is Provenance['steps'][number] =>
+  isRecord(value) &&
+  isVersionKind(value.kind) &&
+  typeof value.prompt === 'string' &&
+  isNullableString(value.model) &&
+  typeof value.createdAt === 'string';
+
+// Recipes may come from older versions or other tools; anything the app would read is checked.
+const isProvenance = (value: unknown): value is Provenance =>
+  isRecord(value) &&
+  value.format === PROVENANCE_FORMAT &&
+  typeof value.prompt === 'string' &&
+  typeof value.createdAt === 'string' &&
+  isNullableString(value.providerId) &&
+  isNullableString(value.model) &&
+  Array.isArray(value.sources) && value.sources.every(isSource) &&
+  Array.isArray(value.steps) && value.steps.every(isStep) &&
+  (value.options === null || isGenerationOptions(value.options));
+
+const parseXmp = (xmp: string): Provenance | null => {
+  const doc = new DOMParser().parseFromString(xmp, 'application/xml');
+  const text = doc.getElementsByTagNameNS(RECIPE_NAMESPACE, 'Recipe')[0]?.textContent;
+  if (!text) return null;
+  const recipe: unknown = JSON.parse(text);
+  return isProvenance(recipe) ? recipe : null;
+};
+
+export async function embedProvenance(file: Blob, provenance: Provenance): Promise<Blob> {
+  return embedXmp(file, toXmp(provenance));
+}
+
+/** The recipe embedded in a downloaded result, or null for any other file. */
+export async function readProvenance(file: Blob): Promise<Provenance | null> {
+  try {
+    const xmp = await readXmp(file);
+    return xmp ? parseXmp(xmp) : null;
+  } catch {
+    // Damaged or foreign metadata is not worth failing an upload over.
+    return null;
+  }
+}
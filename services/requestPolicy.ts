@@ -0,0 +1,71 @@
+import type { RequestSettings } from '../types';
+import { DEFAULT_REQUEST_SETTINGS, REQUEST_SETTINGS_STORAGE_KEY, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from '../constants';
+import { CancelledError, ImageServiceError, QuotaError, TimeoutError, normalizeError } from './errors';
+
+export function loadRequestSettings(): RequestSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(REQUEST_SETTINGS_STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_REQUEST_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_REQUEST_SETTINGS;
+  }
+}
+
+export function saveRequestSettings(settings: RequestSettings) {
+  localStorage.setItem(REQUEST_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Rejects as soon as `signal` aborts, with the abort reason if it is one of ours. */
+const abortPromise = (signal: AbortSignal): Promise<never> =>
+  new Promise((_, reject) => {
+    const fail = () => reject(signal.reason instanceof ImageServiceError ? signal.reason : new CancelledError());
+    if (signal.aborted) fail();
+    else signal.addEventListener('abort', fail, { once: true });
+  });
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  Promise.race([
+    new Promise<void>(resolve => setTimeout(resolve, ms)),
+    ...(signal ? [abortPromise(signal)] : []),
+  ]);
+
+// Exponential backoff with full jitter, so parallel candidates don't retry in lockstep.
+const backoffDelay = (attempt: number, error: ImageServiceError) => {
+  if (error instanceof QuotaError && error.retryAfterMs !== null) return error.retryAfterMs;
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+};
+
+/**
+ * Runs `task` with a per-attempt timeout, retrying retryable failures with backoff.
+ * Aborting `signal` cancels the current attempt and any pending retry with a CancelledError,
+ * even if the provider itself ignores the signal it is given.
+ */
+export async function runWithPolicy<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  settings: RequestSettings,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+
+    const controller = new AbortController();
+    const cancel = () => controller.abort(new CancelledError());
+    signal?.addEventListener('abort', cancel, { once: true });
+    const timer = setTimeout(() => controller.abort(new TimeoutError(settings.timeoutMs)), settings.timeoutMs);
+
+    try {
+      return await Promise.race([task(controller.signal), abortPromise(controller.signal)]);
+    } catch (err) {
+      const error = controller.signal.aborted && controller.signal.reason instanceof ImageServiceError
+        ? controller.signal.reason
+        : normalizeError(err);
+      if (!(error instanceof ImageServiceError) || !error.retryable || attempt >= settings.maxRetries) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt, error), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
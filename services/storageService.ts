@@ -0,0 +1,128 @@
+import type { SavedSession, SessionSummary, WorkspaceSnapshot } from '../types';
+import { STORAGE_DB_NAME } from '../constants';
+
+// v2: summaries live in their own store, so listing sessions does not load every workspace.
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const SUMMARIES_STORE = 'summaries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(STORAGE_DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+          const cursorRequest = request.transaction!.objectStore(SESSIONS_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { id, name, updatedAt } = cursor.value as SavedSession;
+            summaries.put({ id, name, updatedAt });
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open the workspace database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction over the given stores and resolves with what it returns once that commits.
+const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => () => T
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const getResult = work(transaction);
+    transaction.oncomplete = () => resolve(getResult());
+    transaction.onerror = () => reject(transaction.error ?? new Error('Workspace storage request failed.'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Workspace storage request was aborted.'));
+  });
+};
+
+const runRequest = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => runTransaction([storeName], mode, transaction => {
+  const request = makeRequest(transaction.objectStore(storeName));
+  return () => request.result;
+});
+
+const toSummary = ({ id, name, updatedAt }: SessionSummary): SessionSummary => ({ id, name, updatedAt });
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const summaries = await runRequest<SessionSummary[]>(SUMMARIES_STORE, 'readonly', store => store.getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadSession(id: string): Promise<SavedSession | undefined> {
+  return runRequest<SavedSession | undefined>(SESSIONS_STORE, 'readonly', store => store.get(id));
+}
+
+// Files and Blobs inside the workspace are stored as-is through structured cloning.
+export async function saveSession(session: SavedSession): Promise<void> {
+  await runTransaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite', transaction => {
+    transaction.objectStore(SESSIONS_STORE).put(session);
+    transaction.objectStore(SUMMARIES_STORE).put(toSummary(session));
+    return () => undefined;
+  });
+}
+
+/**
+ * Stores a new workspace for the session under whatever name it has by then, so a rename
+ * that lands while an autosave is pending is kept. `fallbackName` is used for new sessions.
+ */
+export async function saveSessionWorkspace(id: string, workspace: WorkspaceSnapshot, fallbackName: string): Promise<void> {
+  await runTransaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite', transaction => {
+    const summaries = transaction.objectStore(SUMMARIES_STORE);
+    const existing = summaries.get(id);
+    existing.onsuccess = () => {
+      const summary: SessionSummary = {
+        id,
+        name: (existing.result as SessionSummary | undefined)?.name ?? fallbackName,
+        updatedAt: Date.now(),
+      };
+      summaries.put(summary);
+      transaction.objectStore(SESSIONS_STORE).put({ ...summary, workspace });
+    };
+    return () => undefined;
+  });
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  await runTransaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite', transaction => {
+    const sessions = transaction.objectStore(SESSIONS_STORE);
+    const existing = sessions.get(id);
+    existing.onsuccess = () => {
+      const session = existing.result as SavedSession | undefined;
+      if (!session) return;
+      sessions.put({ ...session, name });
+      transaction.objectStore(SUMMARIES_STORE).put(toSummary({ ...session, name }));
+    };
+    return () => undefined;
+  });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await runTransaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite', transaction => {
+    transaction.objectStore(SESSIONS_STORE).delete(id);
+    transaction.objectStore(SUMMARIES_STORE).delete(id);
+    return () => undefined;
+  });
+}
@@ -0,0 +1,58 @@
+import type { PromptTemplate, TemplateKind } from '../types';
+import { DEFAULT_TEMPLATES, TEMPLATES_STORAGE_KEY, TEMPLATE_PACK_FORMAT, TEMPLATE_PACK_VERSION } from '../constants';
+import { isRecord } from '../utils/guards';
+
+interface TemplatePack {
+  format: typeof TEMPLATE_PACK_FORMAT;
+  version: number;
+  templates: PromptTemplate[];
+}
+
+const TEMPLATE_KINDS: TemplateKind[] = ['scene', 'enhancement'];
+
+const isTemplate = (value: unknown): value is PromptTemplate =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  TEMPLATE_KINDS.includes(value.kind as TemplateKind) &&
+  typeof value.name === 'string' &&
+  typeof value.template === 'string';
+
+export function loadTemplates(): PromptTemplate[] {
+  const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+  if (!stored) return DEFAULT_TEMPLATES;
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isTemplate) : DEFAULT_TEMPLATES;
+  } catch {
+    return DEFAULT_TEMPLATES;
+  }
+}
+
+export function saveTemplates(templates: PromptTemplate[]) {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+}
+
+export function createTemplatePack(templates: PromptTemplate[]): Blob {
+  const pack: TemplatePack = { format: TEMPLATE_PACK_FORMAT, version: TEMPLATE_PACK_VERSION, templates };
+  return new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+}
+
+export function parseTemplatePack(text: string): PromptTemplate[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a valid preset pack.');
+  }
+  if (!isRecord(raw) || raw.format !== TEMPLATE_PACK_FORMAT || !Array.isArray(raw.templates)) {
+    throw new Error('This file is not a valid preset pack.');
+  }
+  if (typeof raw.version === 'number' && raw.version > TEMPLATE_PACK_VERSION) {
+    throw new Error(`This preset pack was saved by a newer version of Scene Blender (format v${raw.version}).`);
+  }
+  const templates = raw.templates.filter(isTemplate);
+  if (templates.length === 0) {
+    throw new Error('The preset pack does not contain any templates.');
+  }
+  return templates;
+}
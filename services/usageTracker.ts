@@ -0,0 +1,225 @@
+import type { ModelPrice, PriceTable, TokenUsage, UsageBudget, UsageOperation, UsageRecord } from '../types';
+import {
+  DEFAULT_PRICE_TABLE,
+  DEFAULT_USAGE_BUDGET,
+  USAGE_BUDGET_STORAGE_KEY,
+  USAGE_MAX_RECORDS,
+  USAGE_PRICES_STORAGE_KEY,
+  USAGE_RETENTION_DAYS,
+  USAGE_STORAGE_KEY,
+} from '../constants';
+import { BudgetExceededError, CancelledError } from './errors';
+import { isFiniteNumber, isRecord } from '../utils/guards';
+
+// Usage is kept per browser in localStorage. Like the request settings it lives at module
+// level, because the image service records it and enforces the budget without the UI.
+
+export interface UsageState {
+  records: UsageRecord[];
+  prices: PriceTable;
+  budget: UsageBudget;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failed: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  latencyMs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NO_PRICE: ModelPrice = { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 };
+
+const load = <T>(key: string, fallback: T, parse: (stored: unknown) => T): T => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(key) ?? 'null');
+    return stored === null ? fallback : parse(stored);
+  } catch {
+    return fallback;
+  }
+};
+
+const isTokenUsage = (value: unknown): value is TokenUsage =>
+  isRecord(value) && isFiniteNumber(value.inputTokens) && isFiniteNumber(value.outputTokens);
+
+const isUsageRecord = (value: unknown): value is UsageRecord =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isFiniteNumber(value.at) &&
+  typeof value.model === 'string' &&
+  typeof value.operation === 'string' &&
+  typeof value.outcome === 'string' &&
+  isFiniteNumber(value.latencyMs) &&
+  isFiniteNumber(value.images) &&
+  (value.usage === null || isTokenUsage(value.usage));
+
+const isModelPrice = (value: unknown): value is ModelPrice =>
+  isRecord(value) &&
+  isFiniteNumber(value.inputPerMillionTokens) &&
+  isFiniteNumber(value.outputPerMillionTokens) &&
+  isFiniteNumber(value.perImage);
+
+const parsePrices = (stored: unknown): PriceTable => {
+  if (!isRecord(stored)) return DEFAULT_PRICE_TABLE;
+  const prices = Object.entries(stored).filter((entry): entry is [string, ModelPrice] => isModelPrice(entry[1]));
+  return { ...DEFAULT_PRICE_TABLE, ...Object.fromEntries(prices) };
+};
+
+const parseBudget = (stored: unknown): UsageBudget => {
+  if (!isRecord(stored)) return DEFAULT_USAGE_BUDGET;
+  return {
+    dailyLimit: isFiniteNumber(stored.dailyLimit) ? stored.dailyLimit : null,
+    onExceeded: stored.onExceeded === 'block' ? 'block' : 'warn',
+  };
+};
+
+const prune = (records: UsageRecord[]): UsageRecord[] => {
+  const cutoff = Date.now() - USAGE_RETENTION_DAYS * DAY_MS;
+  return records.filter(r => r.at >= cutoff).slice(-USAGE_MAX_RECORDS);
+};
+
+let state: UsageState = {
+  records: load(USAGE_STORAGE_KEY, [], stored => (Array.isArray(stored) ? prune(stored.filter(isUsageRecord)) : [])),
+  prices: load(USAGE_PRICES_STORAGE_KEY, DEFAULT_PRICE_TABLE, parsePrices),
+  budget: load(USAGE_BUDGET_STORAGE_KEY, DEFAULT_USAGE_BUDGET, parseBudget),
+};
+let sessionId: string | null = null;
+const listeners = new Set<() => void>();
+
+const update = (changes: Partial<UsageState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+export const getUsageState = (): UsageState => state;
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Later records are attributed to this workspace session. */
+export const setUsageSession = (id: string | null) => {
+  sessionId = id;
+};
+
+export const setPriceTable = (prices: PriceTable) => {
+  update({ prices });
+  localStorage.setItem(USAGE_PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+export const setUsageBudget = (budget: UsageBudget) => {
+  update({ budget });
+  localStorage.setItem(USAGE_BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+export const clearUsage = () => {
+  update({ records: [] });
+  localStorage.removeItem(USAGE_STORAGE_KEY);
+};
+
+const addRecord = (record: UsageRecord) => {
+  const records = prune([...state.records, record]);
+  update({ records });
+  try {
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(records));
+  } catch (err) {
+    // A full localStorage must not fail the request that was just made.
+    console.error('Could not save usage.', err);
+  }
+};
+
+export const estimateCost = (record: UsageRecord, prices: PriceTable): number => {
+  const price = prices[record.model] ?? NO_PRICE;
+  const tokens = record.usage
+    ? (record.usage.inputTokens * price.inputPerMillionTokens + record.usage.outputTokens * price.outputPerMillionTokens) / 1_000_000
+    : 0;
+  return tokens + record.images * price.perImage;
+};
+
+export const summarize = (records: UsageRecord[], prices: PriceTable): UsageTotals =>
+  records.reduce<UsageTotals>((totals, r) => ({
+    requests: totals.requests + 1,
+    failed: totals.failed + (r.outcome === 'error' ? 1 : 0),
+    images: totals.images + r.images,
+    inputTokens: totals.inputTokens + (r.usage?.inputTokens ?? 0),
+    outputTokens: totals.outputTokens + (r.usage?.outputTokens ?? 0),
+    cost: totals.cost + estimateCost(r, prices),
+    latencyMs: totals.latencyMs + r.latencyMs,
+  }), { requests: 0, failed: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0, latencyMs: 0 });
+
+/** Local calendar day, e.g. "2024-05-31". */
+export const dayKey = (at: number): string => {
+  const date = new Date(at);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const recordsForDay = (records: UsageRecord[], at = Date.now()): UsageRecord[] => {
+  const day = dayKey(at);
+  return records.filter(r => dayKey(r.at) === day);
+};
+
+export const recordsForSession = (records: UsageRecord[], id: string | null): UsageRecord[] =>
+  id ? records.filter(r => r.sessionId === id) : [];
+
+export const formatCost = (cost: number): string => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
+/** Today's estimated spend, and whether it has reached the daily budget. */
+export const getBudgetStatus = ({ records, prices, budget }: UsageState = state) => {
+  const spent = summarize(recordsForDay(records), prices).cost;
+  return { spent, exceeded: budget.dailyLimit !== null && spent >= budget.dailyLimit };
+};
+
+export const assertWithinBudget = () => {
+  const { spent, exceeded } = getBudgetStatus();
+  if (exceeded && state.budget.onExceeded === 'block') {
+    throw new BudgetExceededError(formatCost(spent), formatCost(state.budget.dailyLimit!));
+  }
+};
+
+const addUsage = (total: TokenUsage | null, usage: TokenUsage): TokenUsage => ({
+  inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+  outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+});
+
+/**
+ * Runs one image service call and records how it went. `task` receives the callback that
+ * providers report token usage to; retried attempts add up, since each of them is billed.
+ */
+export async function trackUsage<T>(
+  operation: UsageOperation,
+  provider: { id: string; model: string },
+  task: (onUsage: (usage: TokenUsage) => void) => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  let usage: TokenUsage | null = null;
+  const record = (outcome: UsageRecord['outcome'], error: string | null) => addRecord({
+    id: crypto.randomUUID(),
+    at: startedAt,
+    sessionId,
+    providerId: provider.id,
+    model: provider.model,
+    operation,
+    outcome,
+    error,
+    latencyMs: Date.now() - startedAt,
+    images: outcome === 'success' ? 1 : 0,
+    usage,
+  });
+
+  try {
+    const result = await task(reported => {
+      usage = addUsage(usage, reported);
+    });
+    record('success', null);
+    return result;
+  } catch (err) {
+    record(err instanceof CancelledError ? 'cancelled' : 'error', err instanceof Error ? err.message : String(err));
+    throw err;
+  }
+}
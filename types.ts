@@ -1,8 +1,373 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Annotation geometry is stored in the source image's natural pixel coordinates.
+interface AnnotationBase {
+  id: string;
+  color: string;
+  lineWidth: number;
+  // 0-1; annotations saved before opacity existed are opaque.
+  opacity?: number;
+}
+
+// `pressures` (0-1, one per point) is only recorded for stylus input; without it the
+// stroke has a uniform `lineWidth`, which is otherwise its width at full pressure.
+export interface StrokeAnnotation extends AnnotationBase {
+  type: 'stroke';
+  points: Point[];
+  pressures?: number[];
+}
+
+export interface CircleAnnotation extends AnnotationBase {
+  type: 'circle';
+  center: Point;
+  radius: number;
+}
+
+export interface BoxAnnotation extends AnnotationBase {
+  type: 'box';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ArrowAnnotation extends AnnotationBase {
+  type: 'arrow';
+  start: Point;
+  end: Point;
+}
+
+// `position` is the top-left corner of the text; `fontSize` is in image pixels.
+export interface TextAnnotation extends AnnotationBase {
+  type: 'text';
+  position: Point;
+  text: string;
+  fontSize: number;
+}
+
+export type Annotation = StrokeAnnotation | CircleAnnotation | BoxAnnotation | ArrowAnnotation | TextAnnotation;
+
+// Machine-readable summary of the labels and arrows on an image, sent alongside it so the
+// model doesn't have to read them from pixels. Coordinates are fractions (0-1) of the image size.
+export type AnnotationHint =
+  | { type: 'label'; text: string; at: Point }
+  | { type: 'arrow'; from: Point; to: Point };
+
+// A user-defined meaning for an annotation color, e.g. red = "place the subject here".
+export interface LegendEntry {
+  color: string;
+  meaning: string;
+}
+
+// A brush stroke painted with the mask tool; `size` is the brush diameter in image pixels.
+export interface MaskStroke {
+  points: Point[];
+  size: number;
+}
+
+export type ImageRole = 'unspecified' | 'subject' | 'background' | 'style' | 'lighting' | 'prop';
 
 export interface UploadedImage {
+  // Stays the same while the slot exists; its "Image N" label comes from its position instead.
   id: number;
   file: File | null;
   base64: string | null;
+  // Original image with the annotations flattened on top; derived from `annotations`.
   annotatedBase64: string | null;
+  // Transparent PNG with only the annotations, at the original image size.
+  annotationOverlayBase64: string | null;
+  annotations: Annotation[];
+  // Derived from `annotations` when the editor saves, like the rendered layers above.
+  annotationHints: AnnotationHint[];
   mimeType: string | null;
+  role: ImageRole;
+  caption: string;
+  // How the uploaded file was processed before it replaced the original; null for older sessions.
+  ingest: IngestReport | null;
+}
+
+// Formats every provider accepts; anything else is converted on upload.
+export type IngestFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface IngestSettings {
+  maxDimension: number;
+  maxBytes: number;
+  convertTo: IngestFormat;
+}
+
+export interface IngestReport {
+  originalName: string;
+  originalType: string;
+  originalBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  bytes: number;
+  resized: boolean;
+  converted: boolean;
+}
+
+export type AnnotationMode = 'flattened' | 'overlay';
+
+// 'auto' leaves the shape of the scene to the model.
+export type OutputAspectRatio = 'auto' | '1:1' | '4:3' | '3:4' | '3:2' | '2:3' | '16:9' | '9:16' | '21:9';
+
+// The shape generated scenes should have. The model is asked for it, and whatever comes back
+// is cropped or padded to the aspect ratio, then scaled so its longer side is `longEdge`.
+export interface OutputShape {
+  aspectRatio: OutputAspectRatio;
+  // null keeps the size the model returned.
+  longEdge: number | null;
+  fit: 'crop' | 'pad';
+}
+
+export interface OutputSettings extends OutputShape {
+  // Downloads are re-encoded to this format; the stored versions stay as generated.
+  format: IngestFormat;
+  // 0-1, for JPEG and WebP.
+  quality: number;
+  // May contain {date}, {time}, {prompt-slug}, {version} and {kind}; the extension is added on download.
+  filenameTemplate: string;
+}
+
+export interface GenerationOptions {
+  annotationMode: AnnotationMode;
+  // What each drawing color means, applied to every image that uses the color.
+  legend: LegendEntry[];
+  output: OutputShape;
+  // Varies the output between otherwise identical requests, e.g. for multiple candidates.
+  seed?: number;
+}
+
+export interface GeneratedImage {
+  base64: string;
+  mimeType: string;
+}
+
+// One step of a refinement conversation: what was asked for and the image that came back.
+export interface RefinementTurn {
+  instruction: string;
+  image: GeneratedImage;
+}
+
+// Everything a follow-up instruction is sent with, so the model keeps the original intent.
+export interface RefinementContext {
+  sources: VersionInput[];
+  // The scene prompt and the settings it was sent with; its result is `turns[0]`.
+  prompt: string;
+  options: GenerationOptions;
+  // Oldest first, ending with the image to refine.
+  turns: RefinementTurn[];
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Providers that know what a call consumed report it here, once per attempt.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageOperation = 'generate' | 'enhance' | 'edit' | 'inpaint' | 'refine';
+
+export type UsageOutcome = 'success' | 'error' | 'cancelled';
+
+// One call through the image service, including any retries.
+export interface UsageRecord {
+  id: string;
+  at: number;
+  // The workspace session that was open, for per-session totals.
+  sessionId: string | null;
+  providerId: string;
+  model: string;
+  operation: UsageOperation;
+  outcome: UsageOutcome;
+  error: string | null;
+  latencyMs: number;
+  images: number;
+  // null when the provider doesn't report usage.
+  usage: TokenUsage | null;
+}
+
+// US dollars. Token prices are per million tokens.
+export interface ModelPrice {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  perImage: number;
+}
+
+// Keyed by model name.
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageBudget {
+  // Estimated US dollars per calendar day; null turns the budget off.
+  dailyLimit: number | null;
+  onExceeded: 'warn' | 'block';
+}
+
+export interface RequestSettings {
+  timeoutMs: number;
+  // Extra attempts after the first one, for retryable failures only.
+  maxRetries: number;
+  // How many queued jobs may run at the same time.
+  concurrency: number;
+}
+
+// Providers should honour `request.signal` and throw the classes from services/errors.ts.
+export interface ImageProvider {
+  id: string;
+  label: string;
+  model: string;
+  isConfigured: () => boolean;
+  generateScene: (images: UploadedImage[], prompt: string, options: GenerationOptions, request?: RequestOptions) => Promise<GeneratedImage>;
+  enhanceImage: (image: GeneratedImage, enhancementPrompt: string, request?: RequestOptions) => Promise<GeneratedImage>;
+  editImage: (image: GeneratedImage, editPrompt: string, request?: RequestOptions) => Promise<GeneratedImage>;
+  inpaintImage: (image: GeneratedImage, mask: GeneratedImage, instruction: string, request?: RequestOptions) => Promise<GeneratedImage>;
+  refineImage: (context: RefinementContext, instruction: string, request?: RequestOptions) => Promise<GeneratedImage>;
+}
+
+// 'finish' versions come from the local finishing tools rather than the model;
+// 'refine' versions are follow-up instructions sent with the conversation so far.
+export type VersionKind = 'generate' | 'enhance' | 'edit' | 'finish' | 'refine';
+
+// A source image as it was sent, with what the prompt said about it, so the scene can be described again.
+export interface VersionInput extends Pick<UploadedImage, 'role' | 'caption' | 'annotations' | 'annotationHints'> {
+  slotId: number;
+  // The "Image N" the prompt called it, which is its position at the time.
+  number: number;
+  base64: string;
+  mimeType: string;
+}
+
+// Which backend made a version and, for generated scenes, with what settings.
+export interface VersionRecipe {
+  providerId: string;
+  model: string;
+  options?: GenerationOptions;
+}
+
+export interface ResultVersion {
+  id: string;
+  parentId: string | null;
+  kind: VersionKind;
+  prompt: string;
+  inputs: VersionInput[];
+  image: GeneratedImage;
+  createdAt: number;
+  // Absent for versions made before recipes were recorded.
+  recipe?: VersionRecipe;
+}
+
+// What a downloaded result records about how it was made, embedded as XMP metadata.
+export interface Provenance {
+  format: 'scene-blender-recipe';
+  version: number;
+  createdAt: string;
+  providerId: string | null;
+  model: string | null;
+  prompt: string;
+  // SHA-256 of each source image as it was sent, including any flattened annotations.
+  sources: { slotId: number; mimeType: string; sha256: string }[];
+  options: GenerationOptions | null;
+  // Enhancements and edits applied after the scene was generated, oldest first.
+  steps: { kind: VersionKind; prompt: string; model: string | null; createdAt: string }[];
+}
+
+export interface WorkspaceSnapshot {
+  images: UploadedImage[];
+  prompt: string;
+  versions: ResultVersion[];
+  currentVersionId: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+export interface SavedSession extends SessionSummary {
+  workspace: WorkspaceSnapshot;
+}
+
+export interface ProjectSettings {
+  providerId: string;
+  model: string;
+}
+
+export type CandidateStatus = 'pending' | 'done' | 'error';
+
+export interface Candidate {
+  id: string;
+  seed: number;
+  status: CandidateStatus;
+  image: GeneratedImage | null;
+  error: string | null;
+  starred: boolean;
+}
+
+// One "Generate Scene" click that asked for several candidates.
+export interface CandidateRun {
+  prompt: string;
+  inputs: VersionInput[];
+  candidates: Candidate[];
+}
+
+export type JobKind = 'generate' | 'candidate' | 'enhance' | 'refine' | 'inpaint';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+// A model request waiting in, or run by, the job queue.
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  status: JobStatus;
+  queuedAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: { message: string; guidance?: string } | null;
+  // The version the job added to the history, once done.
+  versionId: string | null;
+}
+
+export type TemplateKind = 'scene' | 'enhancement';
+
+// Template text may contain `{variable}` placeholders that are filled in before use.
+export interface PromptTemplate {
+  id: string;
+  kind: TemplateKind;
+  name: string;
+  template: string;
+}
+
+// Key combos per shortcut action id, e.g. { generate: ['Mod+Enter'] }. `Mod` is Ctrl, or Cmd on a Mac.
+export type ShortcutBindings = Record<string, string[]>;
+
+export type FinishRotation = 0 | 90 | 180 | 270;
+
+// Local, non-AI adjustments for a result. The defaults leave the image unchanged.
+export interface FinishSettings {
+  // Fractions (0-1) of the image after rotating and flipping.
+  crop: { x: number; y: number; width: number; height: number };
+  rotation: FinishRotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  // In stops.
+  exposure: number;
+  // The rest run from -100 to 100, or 0 to 100 for the effects that can't go negative.
+  contrast: number;
+  saturation: number;
+  temperature: number;
+  tint: number;
+  vignette: number;
+  sharpen: number;
+  grain: number;
 }
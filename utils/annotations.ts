@@ -0,0 +1,262 @@
+import type { Annotation, AnnotationHint, ArrowAnnotation, Point, StrokeAnnotation, TextAnnotation } from '../types';
+import { canvasToImage, createCanvas, loadImageElement } from './imageUtils';
+
+export const annotationFont = (fontSize: number) => `bold ${fontSize}px sans-serif`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureTextWidth = (text: string, fontSize: number): number => {
+  measureContext ??= createCanvas(1, 1)[1];
+  measureContext.font = annotationFont(fontSize);
+  return measureContext.measureText(text).width;
+};
+
+// Arrow heads scale with the line so thin and thick arrows look alike.
+const arrowHeadLength = (arrow: ArrowAnnotation) => arrow.lineWidth * 4;
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+
+// The lightest stylus touch still leaves a visible line.
+const MIN_PRESSURE_WIDTH = 0.2;
+
+/** Stroke width at a given stylus pressure (0-1), for a stroke whose full width is `lineWidth`. */
+export const pressureWidth = (lineWidth: number, pressure: number) =>
+  lineWidth * (MIN_PRESSURE_WIDTH + (1 - MIN_PRESSURE_WIDTH) * pressure);
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getBounds = (annotation: Annotation): Bounds => {
+  switch (annotation.type) {
+    case 'stroke': {
+      const xs = annotation.points.map(p => p.x);
+      const ys = annotation.points.map(p => p.y);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+    case 'circle':
+      return {
+        x: annotation.center.x - annotation.radius,
+        y: annotation.center.y - annotation.radius,
+        width: annotation.radius * 2,
+        height: annotation.radius * 2,
+      };
+    case 'box':
+      return {
+        x: Math.min(annotation.x, annotation.x + annotation.width),
+        y: Math.min(annotation.y, annotation.y + annotation.height),
+        width: Math.abs(annotation.width),
+        height: Math.abs(annotation.height),
+      };
+    case 'arrow': {
+      const { start, end } = annotation;
+      const x = Math.min(start.x, end.x);
+      const y = Math.min(start.y, end.y);
+      return { x, y, width: Math.abs(end.x - start.x), height: Math.abs(end.y - start.y) };
+    }
+    case 'text':
+      return {
+        x: annotation.position.x,
+        y: annotation.position.y,
+        width: measureTextWidth(annotation.text, annotation.fontSize),
+        height: annotation.fontSize,
+      };
+  }
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+export const hitTest = (annotation: Annotation, point: Point, tolerance: number): boolean => {
+  const reach = tolerance + annotation.lineWidth / 2;
+  switch (annotation.type) {
+    case 'stroke':
+      if (annotation.points.length === 1) {
+        return Math.hypot(point.x - annotation.points[0].x, point.y - annotation.points[0].y) <= reach;
+      }
+      return annotation.points.some((p, i) => i > 0 && distanceToSegment(point, annotation.points[i - 1], p) <= reach);
+    case 'circle':
+      return Math.hypot(point.x - annotation.center.x, point.y - annotation.center.y) <= annotation.radius + reach;
+    case 'box':
+    case 'text': {
+      const b = getBounds(annotation);
+      return point.x >= b.x - reach && point.x <= b.x + b.width + reach && point.y >= b.y - reach && point.y <= b.y + b.height + reach;
+    }
+    case 'arrow':
+      return distanceToSegment(point, annotation.start, annotation.end) <= reach;
+  }
+};
+
+// Returns the topmost annotation under the point, if any.
+export const findAnnotationAt = (annotations: Annotation[], point: Point, tolerance: number): Annotation | undefined => {
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    if (hitTest(annotations[i], point, tolerance)) return annotations[i];
+  }
+  return undefined;
+};
+
+export const translateAnnotation = (annotation: Annotation, dx: number, dy: number): Annotation => {
+  switch (annotation.type) {
+    case 'stroke':
+      return { ...annotation, points: annotation.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+    case 'circle':
+      return { ...annotation, center: { x: annotation.center.x + dx, y: annotation.center.y + dy } };
+    case 'box':
+      return { ...annotation, x: annotation.x + dx, y: annotation.y + dy };
+    case 'arrow':
+      return {
+        ...annotation,
+        start: { x: annotation.start.x + dx, y: annotation.start.y + dy },
+        end: { x: annotation.end.x + dx, y: annotation.end.y + dy },
+      };
+    case 'text':
+      return { ...annotation, position: { x: annotation.position.x + dx, y: annotation.position.y + dy } };
+  }
+};
+
+// Variable-width strokes are traced as round dabs joined by quads and filled as a single path,
+// so overlapping parts are covered once and a translucent stroke stays even.
+const tracePressureStroke = (ctx: CanvasRenderingContext2D, stroke: StrokeAnnotation, scale: number) => {
+  const dabs = stroke.points.map((p, i) => ({
+    x: p.x * scale,
+    y: p.y * scale,
+    r: (pressureWidth(stroke.lineWidth, stroke.pressures?.[i] ?? 1) * scale) / 2,
+  }));
+  dabs.forEach((dab, i) => {
+    ctx.moveTo(dab.x + dab.r, dab.y);
+    ctx.arc(dab.x, dab.y, dab.r, 0, 2 * Math.PI);
+    const prev = dabs[i - 1];
+    const length = prev ? Math.hypot(dab.x - prev.x, dab.y - prev.y) : 0;
+    if (!prev || length === 0) return;
+    const nx = -(dab.y - prev.y) / length;
+    const ny = (dab.x - prev.x) / length;
+    // Wound the same way as the arcs, so the nonzero fill rule never leaves holes.
+    ctx.moveTo(prev.x - nx * prev.r, prev.y - ny * prev.r);
+    ctx.lineTo(dab.x - nx * dab.r, dab.y - ny * dab.r);
+    ctx.lineTo(dab.x + nx * dab.r, dab.y + ny * dab.r);
+    ctx.lineTo(prev.x + nx * prev.r, prev.y + ny * prev.r);
+    ctx.closePath();
+  });
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, annotation: TextAnnotation, scale: number) => {
+  const fontSize = annotation.fontSize * scale;
+  const x = annotation.position.x * scale;
+  const y = annotation.position.y * scale;
+  ctx.font = annotationFont(fontSize);
+  ctx.textBaseline = 'top';
+  // A dark outline keeps the label readable on any background.
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.lineWidth = Math.max(2, fontSize / 6);
+  ctx.strokeText(annotation.text, x, y);
+  ctx.fillStyle = annotation.color;
+  ctx.fillText(annotation.text, x, y);
+};
+
+/** Draws an annotation whose geometry is in image space onto a context scaled by `scale`. */
+export const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation, scale: number) => {
+  ctx.save();
+  ctx.globalAlpha = annotation.opacity ?? 1;
+  ctx.strokeStyle = annotation.color;
+  ctx.lineWidth = annotation.lineWidth * scale;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  switch (annotation.type) {
+    case 'stroke': {
+      if (annotation.pressures) {
+        tracePressureStroke(ctx, annotation, scale);
+        ctx.fillStyle = annotation.color;
+        ctx.fill();
+        ctx.restore();
+        return;
+      }
+      const [first, ...rest] = annotation.points;
+      if (!first) break;
+      ctx.moveTo(first.x * scale, first.y * scale);
+      if (rest.length === 0) {
+        ctx.lineTo(first.x * scale, first.y * scale);
+      }
+      rest.forEach(p => ctx.lineTo(p.x * scale, p.y * scale));
+      break;
+    }
+    case 'circle':
+      ctx.arc(annotation.center.x * scale, annotation.center.y * scale, annotation.radius * scale, 0, 2 * Math.PI);
+      break;
+    case 'box':
+      ctx.rect(annotation.x * scale, annotation.y * scale, annotation.width * scale, annotation.height * scale);
+      break;
+    case 'arrow': {
+      const { start, end } = annotation;
+      const angle = Math.atan2(end.y - start.y, end.x - start.x);
+      const head = arrowHeadLength(annotation) * scale;
+      ctx.moveTo(start.x * scale, start.y * scale);
+      ctx.lineTo(end.x * scale, end.y * scale);
+      ctx.moveTo(end.x * scale - head * Math.cos(angle - ARROW_HEAD_ANGLE), end.y * scale - head * Math.sin(angle - ARROW_HEAD_ANGLE));
+      ctx.lineTo(end.x * scale, end.y * scale);
+      ctx.lineTo(end.x * scale - head * Math.cos(angle + ARROW_HEAD_ANGLE), end.y * scale - head * Math.sin(angle + ARROW_HEAD_ANGLE));
+      break;
+    }
+    case 'text':
+      drawText(ctx, annotation, scale);
+      ctx.restore();
+      return;
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+export const drawAnnotations = (ctx: CanvasRenderingContext2D, annotations: Annotation[], scale: number) => {
+  annotations.forEach(a => drawAnnotation(ctx, a, scale));
+};
+
+/** Extracts labels and arrows as hints, with coordinates relative to the image size. */
+export const collectAnnotationHints = (annotations: Annotation[], width: number, height: number): AnnotationHint[] => {
+  const relative = (p: Point): Point => ({ x: p.x / width, y: p.y / height });
+  return annotations.flatMap((a): AnnotationHint[] => {
+    if (a.type === 'text') {
+      const b = getBounds(a);
+      return [{ type: 'label', text: a.text, at: relative({ x: b.x + b.width / 2, y: b.y + b.height / 2 }) }];
+    }
+    if (a.type === 'arrow') {
+      return [{ type: 'arrow', from: relative(a.start), to: relative(a.end) }];
+    }
+    return [];
+  });
+};
+
+/**
+ * Renders the annotations at the image's natural size, both flattened onto the image
+ * and as a standalone transparent overlay.
+ */
+export async function renderAnnotationLayers(
+  base64: string,
+  mimeType: string,
+  annotations: Annotation[]
+): Promise<{ annotatedBase64: string | null; annotationOverlayBase64: string | null }> {
+  if (annotations.length === 0) {
+    return { annotatedBase64: null, annotationOverlayBase64: null };
+  }
+  const img = await loadImageElement(`data:${mimeType};base64,${base64}`);
+
+  const [overlayCanvas, overlayCtx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  drawAnnotations(overlayCtx, annotations, 1);
+
+  const [flatCanvas, flatCtx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  flatCtx.drawImage(img, 0, 0);
+  flatCtx.drawImage(overlayCanvas, 0, 0);
+
+  return {
+    annotatedBase64: canvasToImage(flatCanvas, mimeType).base64,
+    annotationOverlayBase64: canvasToImage(overlayCanvas, 'image/png').base64,
+  };
+}
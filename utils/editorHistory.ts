@@ -0,0 +1,129 @@
+import type { Annotation, GeneratedImage, MaskStroke } from '../types';
+
+// Everything the image editor can undo.
+export interface EditorState {
+  // Changes only when an inpainting pass is applied.
+  base: GeneratedImage;
+  annotations: Annotation[];
+  mask: MaskStroke[];
+  // Instructions of the inpainting passes applied to the base image, in order.
+  edits: string[];
+}
+
+// History stores operations rather than states, so a stroke costs a few points instead of a
+// copy of every annotation. Inpainting is the exception: the model's output can't be
+// recomputed, so the command carries the resulting image.
+export type EditorCommand =
+  | { type: 'add'; annotation: Annotation }
+  | { type: 'update'; annotation: Annotation }
+  | { type: 'remove'; ids: string[] }
+  | { type: 'mask'; stroke: MaskStroke }
+  | { type: 'clear-mask' }
+  | { type: 'inpaint'; base: GeneratedImage; instruction: string };
+
+export interface HistoryEntry {
+  command: EditorCommand;
+  label: string;
+  // Consecutive entries with the same key collapse into one, e.g. while a slider is dragged.
+  mergeKey?: string;
+}
+
+export interface EditorHistory {
+  // State before the first entry. Entries that fall off the front are folded into it.
+  root: EditorState;
+  entries: HistoryEntry[];
+  // Number of entries currently applied; entries after it can be redone.
+  position: number;
+  // States after every HISTORY_CHECKPOINT_INTERVAL entries, keyed by entry count, so jumping
+  // around a long history replays at most one interval.
+  checkpoints: Record<number, EditorState>;
+}
+
+const HISTORY_CHECKPOINT_INTERVAL = 20;
+const HISTORY_MAX_ENTRIES = 300;
+// Inpainted images are the only large thing history holds; counted in base64 characters.
+const HISTORY_IMAGE_BUDGET = 150 * 1024 * 1024;
+
+export const applyCommand = (state: EditorState, command: EditorCommand): EditorState => {
+  switch (command.type) {
+    case 'add':
+      return { ...state, annotations: [...state.annotations, command.annotation] };
+    case 'update':
+      return { ...state, annotations: state.annotations.map(a => a.id === command.annotation.id ? command.annotation : a) };
+    case 'remove':
+      return { ...state, annotations: state.annotations.filter(a => !command.ids.includes(a.id)) };
+    case 'mask':
+      return { ...state, mask: [...state.mask, command.stroke] };
+    case 'clear-mask':
+      return { ...state, mask: [] };
+    case 'inpaint':
+      return { ...state, base: command.base, mask: [], edits: [...state.edits, command.instruction] };
+  }
+};
+
+export const createHistory = (initial: EditorState): EditorHistory => ({
+  root: initial,
+  entries: [],
+  position: 0,
+  checkpoints: {},
+});
+
+/** State after the first `index` entries, replayed from the nearest checkpoint. */
+export const stateAt = (history: EditorHistory, index: number): EditorState => {
+  let start = index - (index % HISTORY_CHECKPOINT_INTERVAL);
+  while (start > 0 && !history.checkpoints[start]) start -= HISTORY_CHECKPOINT_INTERVAL;
+  let state = start > 0 ? history.checkpoints[start] : history.root;
+  for (let i = start; i < index; i++) {
+    state = applyCommand(state, history.entries[i].command);
+  }
+  return state;
+};
+
+const imageCost = (entries: HistoryEntry[]) =>
+  entries.reduce((total, { command }) => total + (command.type === 'inpaint' ? command.base.base64.length : 0), 0);
+
+// Drops the oldest undo steps first, folding them into the root; only if that is not enough
+// does it drop redo steps from the end. The current state itself is never lost.
+const enforceBudget = (history: EditorHistory): EditorHistory => {
+  const overBudget = (entries: HistoryEntry[]) =>
+    entries.length > HISTORY_MAX_ENTRIES || imageCost(entries) > HISTORY_IMAGE_BUDGET;
+  if (!overBudget(history.entries)) return history;
+
+  let dropped = 0;
+  while (dropped < history.position && overBudget(history.entries.slice(dropped))) dropped++;
+  // Dropping whole checkpoint intervals keeps the remaining checkpoints valid after re-keying.
+  const rounded = Math.ceil(dropped / HISTORY_CHECKPOINT_INTERVAL) * HISTORY_CHECKPOINT_INTERVAL;
+  if (rounded <= history.position) dropped = rounded;
+
+  const checkpoints: Record<number, EditorState> = {};
+  if (dropped % HISTORY_CHECKPOINT_INTERVAL === 0) {
+    Object.entries(history.checkpoints).forEach(([index, state]) => {
+      if (Number(index) > dropped) checkpoints[Number(index) - dropped] = state;
+    });
+  }
+  let entries = history.entries.slice(dropped);
+  const position = history.position - dropped;
+  while (entries.length > position && overBudget(entries)) entries = entries.slice(0, -1);
+  return { root: stateAt(history, dropped), entries, position, checkpoints };
+};
+
+export const pushEntry = (history: EditorHistory, entry: HistoryEntry): EditorHistory => {
+  const previous = history.entries[history.position - 1];
+  const merge = entry.mergeKey !== undefined && previous?.mergeKey === entry.mergeKey && history.position === history.entries.length;
+  const position = merge ? history.position : history.position + 1;
+  const entries = [...history.entries.slice(0, position - 1), entry];
+  // Checkpoints past the new entry belong to the discarded redo branch.
+  const checkpoints = Object.fromEntries(
+    Object.entries(history.checkpoints).filter(([index]) => Number(index) < position)
+  );
+  const next = { ...history, entries, position, checkpoints };
+  if (position % HISTORY_CHECKPOINT_INTERVAL === 0) {
+    next.checkpoints = { ...checkpoints, [position]: stateAt(next, position) };
+  }
+  return enforceBudget(next);
+};
+
+export const jumpTo = (history: EditorHistory, index: number): EditorHistory => ({
+  ...history,
+  position: Math.max(0, Math.min(history.entries.length, index)),
+});
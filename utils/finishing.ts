@@ -0,0 +1,170 @@
+import type { FinishSettings } from '../types';
+import { DEFAULT_FINISH_SETTINGS } from '../constants';
+import { createCanvas } from './imageUtils';
+
+// How far the white balance sliders push the red/blue (temperature) and green (tint) channels.
+const WHITE_BALANCE_STRENGTH = 0.3;
+const VIGNETTE_STRENGTH = 0.8;
+const SHARPEN_STRENGTH = 2;
+const GRAIN_STRENGTH = 0.25;
+// Fixed so the grain in the preview, and on every apply, is the same pattern.
+const GRAIN_SEED = 0x5eed;
+
+const isFullCrop = ({ crop }: FinishSettings) => crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+
+export const isUnchanged = (settings: FinishSettings): boolean => describeFinish(settings) === '';
+
+const signed = (value: number, unit = '') => `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(value)}${unit}`;
+
+/** A short summary like "Cropped, Exposure +0.5 EV, Vignette 30", used as the version's description. */
+export function describeFinish(settings: FinishSettings): string {
+  const parts: string[] = [];
+  if (!isFullCrop(settings)) parts.push('Cropped');
+  if (settings.rotation) parts.push(`Rotated ${settings.rotation}°`);
+  if (settings.flipHorizontal) parts.push('Flipped horizontally');
+  if (settings.flipVertical) parts.push('Flipped vertically');
+  if (settings.exposure) parts.push(`Exposure ${signed(settings.exposure, ' EV')}`);
+  if (settings.contrast) parts.push(`Contrast ${signed(settings.contrast)}`);
+  if (settings.saturation) parts.push(`Saturation ${signed(settings.saturation)}`);
+  if (settings.temperature) parts.push(`Temperature ${signed(settings.temperature)}`);
+  if (settings.tint) parts.push(`Tint ${signed(settings.tint)}`);
+  if (settings.vignette) parts.push(`Vignette ${settings.vignette}`);
+  if (settings.sharpen) parts.push(`Sharpen ${settings.sharpen}`);
+  if (settings.grain) parts.push(`Grain ${settings.grain}`);
+  return parts.join(', ');
+}
+
+/** Size of the image once rotated, before cropping. */
+export const rotatedSize = (width: number, height: number, rotation: FinishSettings['rotation']) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+const toLinear = (v: number) => (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4);
+const toSrgb = (v: number) => (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055);
+
+// White balance, exposure and contrast act on each channel alone, so they fold into one table
+// per channel. Exposure and white balance work in linear light, like a camera would.
+function buildChannelTables(settings: FinishSettings): Uint8ClampedArray[] {
+  const exposure = 2 ** settings.exposure;
+  const temperature = (settings.temperature / 100) * WHITE_BALANCE_STRENGTH;
+  const tint = (settings.tint / 100) * WHITE_BALANCE_STRENGTH;
+  const gains = [1 + temperature, 1 - tint, 1 - temperature];
+  const contrast = 1 + settings.contrast / 100;
+  return gains.map(gain => {
+    const table = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) {
+      const linear = Math.min(1, toLinear(i / 255) * gain * exposure);
+      const value = (toSrgb(linear) - 0.5) * contrast + 0.5;
+      table[i] = Math.round(value * 255);
+    }
+    return table;
+  });
+}
+
+// mulberry32: small, fast and good enough for film grain.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Unsharp mask with a 3x3 box blur; edges are left as they are.
+function sharpen(data: Uint8ClampedArray, width: number, height: number, amount: number) {
+  const source = data.slice();
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) sum += source[i + (dy * width + dx) * 4 + c];
+        }
+        data[i + c] = source[i + c] + (source[i + c] - sum / 9) * amount;
+      }
+    }
+  }
+}
+
+const TONAL_KEYS = ['exposure', 'contrast', 'saturation', 'temperature', 'tint', 'vignette', 'sharpen', 'grain'] as const;
+
+function adjustPixels(ctx: CanvasRenderingContext2D, width: number, height: number, settings: FinishSettings) {
+  if (TONAL_KEYS.every(key => settings[key] === 0)) return;
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  const [red, green, blue] = buildChannelTables(settings);
+  const saturation = 1 + settings.saturation / 100;
+  const vignette = (settings.vignette / 100) * VIGNETTE_STRENGTH;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxDistance = Math.hypot(centerX, centerY);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let r = red[data[i]];
+      let g = green[data[i + 1]];
+      let b = blue[data[i + 2]];
+      if (saturation !== 1) {
+        const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        r = luma + (r - luma) * saturation;
+        g = luma + (g - luma) * saturation;
+        b = luma + (b - luma) * saturation;
+      }
+      if (vignette) {
+        const falloff = 1 - vignette * (Math.hypot(x - centerX, y - centerY) / maxDistance) ** 2.5;
+        r *= falloff;
+        g *= falloff;
+        b *= falloff;
+      }
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+
+  if (settings.sharpen) sharpen(data, width, height, (settings.sharpen / 100) * SHARPEN_STRENGTH);
+
+  if (settings.grain) {
+    const random = createRandom(GRAIN_SEED);
+    const grain = (settings.grain / 100) * GRAIN_STRENGTH * 255;
+    for (let i = 0; i < data.length; i += 4) {
+      // The same offset on every channel gives monochrome grain, like film.
+      const noise = (random() * 2 - 1) * grain;
+      data[i] += noise;
+      data[i + 1] += noise;
+      data[i + 2] += noise;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Renders `source` with the finishing settings applied: rotation and flips first, then the
+ * crop, then the tonal adjustments and effects. `maxSize` caps the long edge, for previews;
+ * `applyCrop: false` renders the whole rotated image, so a crop can be drawn on top of it.
+ */
+export function renderFinish(
+  source: HTMLImageElement,
+  settings: FinishSettings,
+  { maxSize, applyCrop = true }: { maxSize?: number; applyCrop?: boolean } = {}
+): HTMLCanvasElement {
+  const { naturalWidth: width, naturalHeight: height } = source;
+  const rotated = rotatedSize(width, height, settings.rotation);
+  const crop = applyCrop ? settings.crop : DEFAULT_FINISH_SETTINGS.crop;
+  const cropWidth = rotated.width * crop.width;
+  const cropHeight = rotated.height * crop.height;
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(cropWidth, cropHeight)) : 1;
+
+  const [canvas, ctx] = createCanvas(cropWidth * scale, cropHeight * scale);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(canvas.width / cropWidth, canvas.height / cropHeight);
+  ctx.translate(-rotated.width * crop.x, -rotated.height * crop.y);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.scale(settings.flipHorizontal ? -1 : 1, settings.flipVertical ? -1 : 1);
+  ctx.rotate((settings.rotation * Math.PI) / 180);
+  ctx.drawImage(source, -width / 2, -height / 2);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  adjustPixels(ctx, canvas.width, canvas.height, settings);
+  return canvas;
+}
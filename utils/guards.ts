@@ -0,0 +1,32 @@
+import type { GenerationOptions, LegendEntry, OutputAspectRatio, OutputShape, VersionKind } from '../types';
+import { OUTPUT_ASPECT_RATIOS } from '../constants';
+
+// Narrowing helpers for data read back from JSON (localStorage, imported files, metadata).
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isNullableString = (value: unknown): value is string | null => value === null || typeof value === 'string';
+
+const VERSION_KINDS: VersionKind[] = ['generate', 'enhance', 'edit', 'finish', 'refine'];
+
+export const isVersionKind = (value: unknown): value is VersionKind => VERSION_KINDS.includes(value as VersionKind);
+
+export const isLegendEntry = (value: unknown): value is LegendEntry =>
+  isRecord(value) && typeof value.color === 'string' && typeof value.meaning === 'string';
+
+export const isOutputShape = (value: unknown): value is OutputShape =>
+  isRecord(value) &&
+  OUTPUT_ASPECT_RATIOS.includes(value.aspectRatio as OutputAspectRatio) &&
+  (value.longEdge === null || isFiniteNumber(value.longEdge)) &&
+  (value.fit === 'crop' || value.fit === 'pad');
+
+export const isGenerationOptions = (value: unknown): value is GenerationOptions =>
+  isRecord(value) &&
+  (value.annotationMode === 'flattened' || value.annotationMode === 'overlay') &&
+  Array.isArray(value.legend) && value.legend.every(isLegendEntry) &&
+  isOutputShape(value.output) &&
+  (value.seed === undefined || isFiniteNumber(value.seed));
@@ -0,0 +1,67 @@
+import type { GeneratedImage } from '../types';
+import { canvasToImage, createCanvas, loadImageElement, toDataUrl } from './imageUtils';
+
+// Heatmaps are computed at most at this size; finer detail is not visible in the viewer anyway.
+const MAX_DIFF_DIMENSION = 2048;
+// Per-channel differences below this are treated as compression noise, not real change.
+const CHANGE_THRESHOLD = 24;
+
+export interface DifferenceMap {
+  image: GeneratedImage;
+  /** Share of pixels (0-1) whose difference exceeds the noise threshold. */
+  changedRatio: number;
+}
+
+/** Maps 0-1 to black → red → yellow → white. */
+const heatColor = (t: number): [number, number, number] => [
+  Math.min(255, t * 3 * 255),
+  Math.max(0, Math.min(255, (t * 3 - 1) * 255)),
+  Math.max(0, Math.min(255, (t * 3 - 2) * 255)),
+];
+
+/**
+ * Renders the per-pixel difference between two images as a heatmap over a dimmed copy of
+ * `after`. `before` is stretched onto `after`'s frame, matching how the viewer overlays them.
+ */
+export async function createDifferenceMap(before: GeneratedImage, after: GeneratedImage): Promise<DifferenceMap> {
+  const [beforeImg, afterImg] = await Promise.all([
+    loadImageElement(toDataUrl(before)),
+    loadImageElement(toDataUrl(after)),
+  ]);
+  const scale = Math.min(1, MAX_DIFF_DIMENSION / Math.max(afterImg.naturalWidth, afterImg.naturalHeight));
+  const width = Math.round(afterImg.naturalWidth * scale);
+  const height = Math.round(afterImg.naturalHeight * scale);
+
+  const [beforeCanvas, beforeCtx] = createCanvas(width, height);
+  beforeCtx.drawImage(beforeImg, 0, 0, width, height);
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(afterImg, 0, 0, width, height);
+
+  const beforePixels = beforeCtx.getImageData(0, 0, width, height).data;
+  const output = ctx.getImageData(0, 0, width, height);
+  const pixels = output.data;
+  let changed = 0;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(pixels[i] - beforePixels[i]),
+      Math.abs(pixels[i + 1] - beforePixels[i + 1]),
+      Math.abs(pixels[i + 2] - beforePixels[i + 2])
+    );
+    const luma = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+    if (diff > CHANGE_THRESHOLD) {
+      changed++;
+      const [r, g, b] = heatColor(Math.min(1, diff / 128));
+      pixels[i] = r;
+      pixels[i + 1] = g;
+      pixels[i + 2] = b;
+    } else {
+      // Unchanged areas stay faintly visible so changes can be located in the scene.
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = luma * 0.25;
+    }
+    pixels[i + 3] = 255;
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return { image: canvasToImage(canvas, 'image/png'), changedRatio: changed / (width * height) };
+}
@@ -0,0 +1,216 @@
+// Reads and writes an XMP packet in PNG, JPEG and WebP files without re-encoding the pixels.
+// PNG keeps it in an iTXt chunk, JPEG in an APP1 segment and WebP in an "XMP " chunk.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const JPEG_XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+// A JPEG segment length is 16 bits and counts itself.
+const JPEG_MAX_SEGMENT_DATA = 0xffff - 2;
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_ALPHA_FLAG = 0x10;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+const isWebp = (bytes: Uint8Array) => ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP';
+
+// --- PNG ---
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+function embedPng(bytes: Uint8Array, xmp: string): Uint8Array {
+  // Keyword, then uncompressed flag and method, then empty language tag and translated keyword.
+  const data = concat(encoder.encode(PNG_XMP_KEYWORD), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(xmp));
+  // IHDR always comes first; XMP readers expect the packet before the image data.
+  const afterHeader = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  return concat(bytes.subarray(0, afterHeader), pngChunk('iTXt', data), bytes.subarray(afterHeader));
+}
+
+function readPng(bytes: Uint8Array): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'iTXt') {
+      const keywordEnd = data.indexOf(0);
+      // Compressed packets are not written by us and are skipped.
+      if (ascii(data, 0, keywordEnd) === PNG_XMP_KEYWORD && data[keywordEnd + 1] === 0) {
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        return decoder.decode(data.subarray(translatedEnd + 1));
+      }
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return null;
+}
+
+// --- JPEG ---
+
+function embedJpeg(bytes: Uint8Array, xmp: string): Uint8Array {
+  const payload = encoder.encode(JPEG_XMP_NAMESPACE + xmp);
+  if (payload.length > JPEG_MAX_SEGMENT_DATA) {
+    throw new Error('The recipe is too long to fit in a JPEG file. Download as PNG or WebP to keep it.');
+  }
+  const header = new Uint8Array(4);
+  new DataView(header.buffer).setUint16(0, 0xffe1);
+  new DataView(header.buffer).setUint16(2, payload.length + 2);
+  // Stay behind a JFIF APP0 segment, which must come first.
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concat(bytes.subarray(0, insertAt), header, payload, bytes.subarray(insertAt));
+}
+
+function readJpeg(bytes: Uint8Array): string | null {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: only entropy-coded data follows.
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && ascii(bytes, offset + 4, JPEG_XMP_NAMESPACE.length) === JPEG_XMP_NAMESPACE) {
+      return decoder.decode(bytes.subarray(offset + 4 + JPEG_XMP_NAMESPACE.length, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// --- WebP ---
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    chunks.push({ type: ascii(bytes, offset, 4), data: bytes.subarray(offset + 8, offset + 8 + length) });
+    // Chunks are padded to an even length.
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+}
+
+const riffChunk = ({ type, data }: RiffChunk): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(encoder.encode(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+// Simple WebP files have no VP8X header, which is needed to announce the metadata.
+function createVp8x(image: RiffChunk): RiffChunk {
+  const d = image.data;
+  let width: number;
+  let height: number;
+  let flags = 0;
+  if (image.type === 'VP8L') {
+    const bits = d[1] | (d[2] << 8) | (d[3] << 16) | (d[4] << 24);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    if ((bits >>> 28) & 1) flags |= WEBP_ALPHA_FLAG;
+  } else {
+    // Lossy frame header: 3-byte frame tag, 3-byte start code, then 14-bit width and height.
+    width = (d[6] | (d[7] << 8)) & 0x3fff;
+    height = (d[8] | (d[9] << 8)) & 0x3fff;
+  }
+  const data = new Uint8Array(10);
+  data[0] = flags;
+  [width - 1, height - 1].forEach((value, i) => {
+    data[4 + i * 3] = value & 0xff;
+    data[5 + i * 3] = (value >> 8) & 0xff;
+    data[6 + i * 3] = (value >> 16) & 0xff;
+  });
+  return { type: 'VP8X', data };
+}
+
+function embedWebp(bytes: Uint8Array, xmp: string): Uint8Array {
+  const chunks = readRiffChunks(bytes).filter(chunk => chunk.type !== 'XMP ');
+  if (chunks[0]?.type !== 'VP8X') {
+    chunks.unshift(createVp8x(chunks[0]));
+  }
+  const vp8x = { ...chunks[0], data: chunks[0].data.slice() };
+  vp8x.data[0] |= WEBP_XMP_FLAG;
+  const body = concat(encoder.encode('WEBP'), ...[vp8x, ...chunks.slice(1), { type: 'XMP ', data: encoder.encode(xmp) }].map(riffChunk));
+  const header = new Uint8Array(8);
+  header.set(encoder.encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat(header, body);
+}
+
+const readWebp = (bytes: Uint8Array): string | null => {
+  const chunk = readRiffChunks(bytes).find(c => c.type === 'XMP ');
+  return chunk ? decoder.decode(chunk.data) : null;
+};
+
+/** Returns a copy of a PNG, JPEG or WebP file with the XMP packet added. */
+export async function embedXmp(file: Blob, xmp: string): Promise<Blob> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const embedded = isPng(bytes) ? embedPng(bytes, xmp)
+    : isJpeg(bytes) ? embedJpeg(bytes, xmp)
+    : isWebp(bytes) ? embedWebp(bytes, xmp)
+    : null;
+  if (!embedded) {
+    throw new Error(`Cannot add metadata to ${file.type || 'this kind of'} files.`);
+  }
+  return new Blob([embedded], { type: file.type });
+}
+
+/** The XMP packet of a PNG, JPEG or WebP file, or null if it has none. */
+export async function readXmp(file: Blob): Promise<string | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isPng(bytes)) return readPng(bytes);
+  if (isJpeg(bytes)) return readJpeg(bytes);
+  if (isWebp(bytes)) return readWebp(bytes);
+  return null;
+}
@@ -0,0 +1,67 @@
+// Extracts images from drag-and-drop and clipboard data: plain files, images dragged out of
+// another browser tab (which arrive as a URL or an HTML snippet), and copied image addresses.
+
+export interface TransferredImages {
+  files: File[];
+  // Names of dropped or pasted items that are not images.
+  rejected: string[];
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|webp|gif|bmp|avif|heic|heif)$/i;
+
+const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+const isImageUrl = (url: string) =>
+  /^data:image\//i.test(url) || (/^https?:\/\//i.test(url) && IMAGE_EXTENSIONS.test(new URL(url).pathname));
+
+// Browsers put the image itself in `src` of the dragged <img>; the uri-list may be a link around it.
+const findImageUrl = (data: DataTransfer): string | null => {
+  const html = data.getData('text/html');
+  const src = html && new DOMParser().parseFromString(html, 'text/html').querySelector('img')?.getAttribute('src');
+  if (src) return src;
+  const uris = data.getData('text/uri-list').split(/\r?\n/).filter(line => line && !line.startsWith('#'));
+  const text = data.getData('text/plain').trim();
+  return [...uris, text].find(candidate => {
+    try {
+      return isImageUrl(candidate);
+    } catch {
+      return false;
+    }
+  }) ?? uris[0] ?? null;
+};
+
+async function fetchImageFile(url: string): Promise<File> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    // Most sites don't allow other pages to download their images (CORS).
+    throw new Error('Could not download the image from its web address. Save it to your computer first, then drop or paste the file.', { cause: err });
+  }
+  if (!response.ok) {
+    throw new Error(`Could not download the image (HTTP ${response.status}).`);
+  }
+  const blob = await response.blob();
+  const name = url.startsWith('data:') ? 'dropped-image' : decodeURIComponent(new URL(url).pathname.split('/').pop() || 'dropped-image');
+  if (!blob.type.startsWith('image/') && !IMAGE_EXTENSIONS.test(name)) {
+    throw new Error(`The link does not point to an image (${blob.type || 'unknown type'}).`);
+  }
+  return new File([blob], name, { type: blob.type });
+}
+
+/**
+ * Reads the images out of a drop or paste. Must be called while the event is being handled,
+ * because browsers clear the data afterwards; only downloading a dragged URL happens later.
+ */
+export function readImageTransfer(data: DataTransfer): Promise<TransferredImages> {
+  const items = Array.from(data.files);
+  if (items.length > 0) {
+    return Promise.resolve({
+      files: items.filter(isImageFile),
+      rejected: items.filter(file => !isImageFile(file)).map(file => file.name),
+    });
+  }
+  const url = findImageUrl(data);
+  if (!url) return Promise.resolve({ files: [], rejected: [] });
+  return fetchImageFile(url).then(file => ({ files: [file], rejected: [] }));
+}
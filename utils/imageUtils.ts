@@ -0,0 +1,41 @@
+import type { GeneratedImage } from '../types';
+
+export const toDataUrl = (image: GeneratedImage): string => `data:${image.mimeType};base64,${image.base64}`;
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode image.'));
+    img.src = src;
+  });
+
+export const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  return [canvas, ctx];
+};
+
+export const canvasToImage = (canvas: HTMLCanvasElement, mimeType = 'image/png', quality?: number): GeneratedImage => {
+  const dataUrl = canvas.toDataURL(mimeType, quality);
+  const [header, base64] = dataUrl.split(',');
+  // Browsers silently fall back to PNG for types they cannot encode.
+  const actualMimeType = header.slice('data:'.length, header.indexOf(';'));
+  return { base64, mimeType: actualMimeType };
+};
+
+// Small, stable string hash (FNV-1a) used wherever we need deterministic output.
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
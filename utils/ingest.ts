@@ -0,0 +1,130 @@
+import type { GeneratedImage, IngestFormat, IngestReport, IngestSettings } from '../types';
+import {
+  DEFAULT_INGEST_SETTINGS,
+  INGEST_MIN_QUALITY,
+  INGEST_QUALITY,
+  INGEST_SETTINGS_STORAGE_KEY,
+  SUPPORTED_INPUT_TYPES,
+} from '../constants';
+import { canvasToImage, createCanvas, loadImageElement } from './imageUtils';
+import { base64ByteLength, base64ToFile } from './fileUtils';
+
+// Never shrink below this while chasing the byte budget; the model needs some detail to work with.
+const MIN_DIMENSION = 256;
+const MAX_ENCODE_ATTEMPTS = 12;
+
+const EXTENSIONS: Record<IngestFormat, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export interface IngestedImage {
+  file: File;
+  image: GeneratedImage;
+  report: IngestReport;
+}
+
+export function loadIngestSettings(): IngestSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(INGEST_SETTINGS_STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_INGEST_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_INGEST_SETTINGS;
+  }
+}
+
+export function saveIngestSettings(settings: IngestSettings) {
+  localStorage.setItem(INGEST_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Browsers often leave `type` empty for HEIC, so the extension is checked as well.
+const isHeic = (file: File) => /image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+const isSupportedType = (type: string): type is IngestFormat => (SUPPORTED_INPUT_TYPES as string[]).includes(type);
+
+/** Decodes with the EXIF orientation applied, so the pixels come out upright. */
+async function decodeImage(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    // Older browsers lack the options bag; <img> applies EXIF orientation by default.
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return await loadImageElement(url);
+  } catch {
+    throw new Error(isHeic(file)
+      ? `"${file.name}" is a HEIC photo, which this browser cannot decode. Export it as JPEG first, or use Safari.`
+      : `"${file.name}" could not be read as an image.`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const sizeOf = (source: ImageBitmap | HTMLImageElement) =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+/**
+ * Prepares an uploaded file for sending: fixes EXIF orientation, converts formats the
+ * providers don't accept, and downscales to the configured dimension and byte budget.
+ * The image is always re-encoded through a canvas, which drops EXIF data such as GPS
+ * location and camera details.
+ */
+export async function ingestImage(file: File, settings: IngestSettings): Promise<IngestedImage> {
+  const source = await decodeImage(file);
+  const { width: originalWidth, height: originalHeight } = sizeOf(source);
+  const converted = !isSupportedType(file.type);
+  const format = converted ? settings.convertTo : file.type as IngestFormat;
+
+  let scale = Math.min(1, settings.maxDimension / Math.max(originalWidth, originalHeight));
+  let quality = INGEST_QUALITY;
+  let encoded: GeneratedImage;
+  let width: number;
+  let height: number;
+
+  for (let attempt = 0; ; attempt++) {
+    width = Math.max(1, Math.round(originalWidth * scale));
+    height = Math.max(1, Math.round(originalHeight * scale));
+    const [canvas, ctx] = createCanvas(width, height);
+    if (format === 'image/jpeg') {
+      // JPEG has no alpha; without a backdrop transparent areas would turn black.
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(source, 0, 0, width, height);
+    encoded = canvasToImage(canvas, format, quality);
+
+    const fits = base64ByteLength(encoded.base64) <= settings.maxBytes;
+    if (fits || attempt >= MAX_ENCODE_ATTEMPTS || Math.max(width, height) <= MIN_DIMENSION) break;
+    // Lossy formats give up quality first; PNG (or a browser that fell back to it) can only shrink.
+    if (encoded.mimeType !== 'image/png' && quality > INGEST_MIN_QUALITY) {
+      quality = Math.max(INGEST_MIN_QUALITY, quality - 0.1);
+    } else {
+      scale *= 0.8;
+    }
+  }
+
+  if (source instanceof ImageBitmap) source.close();
+
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+  const extension = EXTENSIONS[encoded.mimeType as IngestFormat] ?? 'png';
+  return {
+    file: base64ToFile(encoded.base64, encoded.mimeType, `${baseName}.${extension}`),
+    image: encoded,
+    report: {
+      originalName: file.name,
+      originalType: file.type || (isHeic(file) ? 'image/heic' : 'unknown'),
+      originalBytes: file.size,
+      originalWidth,
+      originalHeight,
+      width,
+      height,
+      bytes: base64ByteLength(encoded.base64),
+      resized: width !== originalWidth || height !== originalHeight,
+      converted: converted || encoded.mimeType !== file.type,
+    },
+  };
+}
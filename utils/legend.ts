@@ -0,0 +1,60 @@
+import type { Annotation, LegendEntry } from '../types';
+import { DEFAULT_LEGEND, LEGEND_STORAGE_KEY } from '../constants';
+import { isLegendEntry } from './guards';
+
+export function loadLegend(): LegendEntry[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(LEGEND_STORAGE_KEY) ?? 'null');
+    if (!Array.isArray(stored)) return DEFAULT_LEGEND;
+    // A legend the user emptied stays empty; one with nothing usable left is replaced.
+    const legend = stored.filter(isLegendEntry);
+    return legend.length > 0 || stored.length === 0 ? legend : DEFAULT_LEGEND;
+  } catch {
+    return DEFAULT_LEGEND;
+  }
+}
+
+export function saveLegend(legend: LegendEntry[]) {
+  localStorage.setItem(LEGEND_STORAGE_KEY, JSON.stringify(legend));
+}
+
+const sameColor = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Legend entries with a meaning whose color is used by at least one of the annotations. */
+export const legendForAnnotations = (legend: LegendEntry[], annotations: Annotation[]): LegendEntry[] =>
+  legend.filter(entry => entry.meaning.trim() && annotations.some(a => sameColor(a.color, entry.color)));
+
+export const findLegendEntry = (legend: LegendEntry[], color: string): LegendEntry | undefined =>
+  legend.find(entry => sameColor(entry.color, color));
+
+const NAMED_COLORS: [string, number, number, number][] = [
+  ['red', 255, 0, 0],
+  ['orange', 255, 140, 0],
+  ['yellow', 255, 255, 0],
+  ['green', 0, 200, 0],
+  ['cyan', 0, 255, 255],
+  ['blue', 0, 0, 255],
+  ['purple', 128, 0, 200],
+  ['magenta', 255, 0, 255],
+  ['pink', 255, 150, 200],
+  ['brown', 140, 80, 20],
+  ['white', 255, 255, 255],
+  ['gray', 128, 128, 128],
+  ['black', 0, 0, 0],
+];
+
+/** The nearest plain color name for a #rrggbb color, so the prompt can say "red" rather than a hex code alone. */
+export const colorName = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+  let best = NAMED_COLORS[0];
+  let bestDistance = Infinity;
+  for (const named of NAMED_COLORS) {
+    const distance = (named[1] - r) ** 2 + (named[2] - g) ** 2 + (named[3] - b) ** 2;
+    if (distance < bestDistance) {
+      best = named;
+      bestDistance = distance;
+    }
+  }
+  return best[0];
+};
@@ -0,0 +1,65 @@
+import type { GeneratedImage, MaskStroke } from '../types';
+import { canvasToImage, createCanvas, loadImageElement, toDataUrl } from './imageUtils';
+
+/** Paints mask strokes (geometry in image space) as solid round brush strokes scaled by `scale`. */
+export const drawMaskStrokes = (ctx: CanvasRenderingContext2D, strokes: MaskStroke[], scale: number, color: string) => {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  strokes.forEach(stroke => {
+    const [first, ...rest] = stroke.points;
+    if (!first) return;
+    ctx.lineWidth = stroke.size * scale;
+    ctx.beginPath();
+    ctx.moveTo(first.x * scale, first.y * scale);
+    ctx.lineTo(first.x * scale, first.y * scale);
+    rest.forEach(p => ctx.lineTo(p.x * scale, p.y * scale));
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+/** Black-and-white PNG mask at image size: white is the region to regenerate. */
+export const renderMaskImage = (strokes: MaskStroke[], width: number, height: number): GeneratedImage => {
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  drawMaskStrokes(ctx, strokes, 1, '#ffffff');
+  return canvasToImage(canvas, 'image/png');
+};
+
+/**
+ * Pastes the masked region of `generated` onto `original`, softening the mask edge by
+ * `feather` image pixels, so everything outside the mask keeps its original pixels.
+ */
+export async function compositeMaskedRegion(
+  original: GeneratedImage,
+  generated: GeneratedImage,
+  strokes: MaskStroke[],
+  feather: number
+): Promise<GeneratedImage> {
+  const [originalImg, generatedImg] = await Promise.all([
+    loadImageElement(toDataUrl(original)),
+    loadImageElement(toDataUrl(generated)),
+  ]);
+  const width = originalImg.naturalWidth;
+  const height = originalImg.naturalHeight;
+
+  const [maskCanvas, maskCtx] = createCanvas(width, height);
+  drawMaskStrokes(maskCtx, strokes, 1, '#ffffff');
+
+  // The model may return a different resolution; stretch it back onto the original frame.
+  const [patchCanvas, patchCtx] = createCanvas(width, height);
+  patchCtx.drawImage(generatedImg, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  if (feather > 0) {
+    patchCtx.filter = `blur(${feather}px)`;
+  }
+  patchCtx.drawImage(maskCanvas, 0, 0);
+
+  const [resultCanvas, resultCtx] = createCanvas(width, height);
+  resultCtx.drawImage(originalImg, 0, 0);
+  resultCtx.drawImage(patchCanvas, 0, 0);
+  return canvasToImage(resultCanvas, original.mimeType);
+}
@@ -0,0 +1,120 @@
+import type { GeneratedImage, IngestFormat, OutputSettings, OutputShape, ResultVersion } from '../types';
+import { DEFAULT_OUTPUT_SETTINGS, OUTPUT_SETTINGS_STORAGE_KEY } from '../constants';
+import { canvasToImage, createCanvas, loadImageElement, toDataUrl } from './imageUtils';
+import { base64ToBlob, slugify } from './fileUtils';
+
+// Results this close to the target ratio are only scaled, not cropped or padded.
+const ASPECT_TOLERANCE = 0.01;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const INVALID_FILENAME_CHARACTERS = /[\\/:*?"<>|\x00-\x1f]+/g;
+const FALLBACK_FILENAME = 'scene-blender-result';
+
+export function loadOutputSettings(): OutputSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(OUTPUT_SETTINGS_STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_OUTPUT_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_OUTPUT_SETTINGS;
+  }
+}
+
+export function saveOutputSettings(settings: OutputSettings) {
+  localStorage.setItem(OUTPUT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Width divided by height, or null when the model picks the shape. */
+export const aspectRatioValue = (aspectRatio: OutputShape['aspectRatio']): number | null => {
+  if (aspectRatio === 'auto') return null;
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+};
+
+/**
+ * Brings a generated image to the requested shape. Models treat the aspect ratio as a hint,
+ * so the result is center-cropped (or padded with black) to it, then scaled to the long edge.
+ */
+export async function conformImage(image: GeneratedImage, shape: OutputShape): Promise<GeneratedImage> {
+  const ratio = aspectRatioValue(shape.aspectRatio);
+  if (ratio === null && shape.longEdge === null) return image;
+
+  const element = await loadImageElement(toDataUrl(image));
+  const sourceWidth = element.naturalWidth;
+  const sourceHeight = element.naturalHeight;
+  const sourceRatio = sourceWidth / sourceHeight;
+  const reshape = ratio !== null && Math.abs(sourceRatio / ratio - 1) > ASPECT_TOLERANCE;
+  const targetRatio = reshape ? ratio! : sourceRatio;
+
+  // The frame the output covers, in source pixels.
+  const keepsHeight = (shape.fit === 'crop') === (sourceRatio > targetRatio);
+  const frameWidth = keepsHeight ? sourceHeight * targetRatio : sourceWidth;
+  const frameHeight = keepsHeight ? sourceHeight : sourceWidth / targetRatio;
+
+  const longEdge = shape.longEdge ?? Math.max(frameWidth, frameHeight);
+  const scale = longEdge / Math.max(frameWidth, frameHeight);
+  if (!reshape && scale === 1) return image;
+
+  const [canvas, ctx] = createCanvas(Math.round(frameWidth * scale), Math.round(frameHeight * scale));
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    element,
+    ((frameWidth - sourceWidth) / 2) * scale,
+    ((frameHeight - sourceHeight) / 2) * scale,
+    sourceWidth * scale,
+    sourceHeight * scale
+  );
+  // Versions are kept lossless; the download format is applied on export.
+  return canvasToImage(canvas, 'image/png');
+}
+
+/** Re-encodes an image for download. Browsers that can't write `format` fall back to PNG. */
+export async function encodeImage(image: GeneratedImage, format: IngestFormat, quality: number): Promise<Blob> {
+  if (image.mimeType === format && format === 'image/png') {
+    return base64ToBlob(image.base64, image.mimeType);
+  }
+  const element = await loadImageElement(toDataUrl(image));
+  const [canvas, ctx] = createCanvas(element.naturalWidth, element.naturalHeight);
+  // JPEG has no alpha channel; without a backdrop transparent areas turn black.
+  if (format === 'image/jpeg') {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(element, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('The browser could not encode the image.'))),
+      format,
+      quality
+    );
+  });
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Fills in a filename template for a version and adds the extension for `mimeType`.
+ * `versionNumber` is the version's 1-based position, as shown in the version tree.
+ */
+export function formatFilename(template: string, version: ResultVersion, versionNumber: number, mimeType: string): string {
+  const created = new Date(version.createdAt);
+  const values: Record<string, string> = {
+    date: `${created.getFullYear()}-${pad(created.getMonth() + 1)}-${pad(created.getDate())}`,
+    time: `${pad(created.getHours())}-${pad(created.getMinutes())}-${pad(created.getSeconds())}`,
+    'prompt-slug': slugify(version.prompt) || 'untitled',
+    version: `v${versionNumber}`,
+    kind: version.kind,
+  };
+  const name = template
+    .replace(/\{([a-z-]+)\}/g, (match, key: string) => values[key] ?? match)
+    .replace(INVALID_FILENAME_CHARACTERS, '-')
+    .trim()
+    .replace(/^\.+/, '');
+  return `${name || FALLBACK_FILENAME}.${EXTENSIONS[mimeType] ?? 'png'}`;
+}
@@ -0,0 +1,67 @@
+import type { ShortcutBindings } from '../types';
+import { DEFAULT_SHORTCUT_BINDINGS, SHORTCUTS_STORAGE_KEY } from '../constants';
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock'];
+
+export const isMac = /Mac|iPhone|iPad/.test(navigator.platform);
+
+export function loadShortcutBindings(): ShortcutBindings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SHORTCUTS_STORAGE_KEY) ?? 'null');
+    // Actions added since the bindings were saved get their defaults.
+    return { ...DEFAULT_SHORTCUT_BINDINGS, ...stored };
+  } catch {
+    return DEFAULT_SHORTCUT_BINDINGS;
+  }
+}
+
+export function saveShortcutBindings(bindings: ShortcutBindings) {
+  localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(bindings));
+}
+
+/**
+ * Describes a key press as a combo like "Mod+Shift+Z", or null for a lone modifier.
+ * Letters and digits come from the physical key so Alt and Shift don't change them; other
+ * printable keys use the character typed, which already reflects Shift (e.g. "?").
+ */
+export function eventToCombo(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  let key: string;
+  let shift = e.shiftKey;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit\d$/.test(e.code)) key = e.code.slice(5);
+  else if (e.key === ' ') key = 'Space';
+  // '+' separates the parts of a combo.
+  else if (e.key === '+') {
+    key = 'Plus';
+    shift = false;
+  }
+  else if (e.key.length === 1) {
+    key = e.key.toUpperCase();
+    shift = false;
+  } else key = e.key;
+
+  return [
+    e.ctrlKey || e.metaKey ? 'Mod' : null,
+    e.altKey ? 'Alt' : null,
+    shift ? 'Shift' : null,
+    key,
+  ].filter(Boolean).join('+');
+}
+
+const MAC_SYMBOLS: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+
+export const formatCombo = (combo: string): string =>
+  combo
+    .split('+')
+    .map(part => (isMac ? MAC_SYMBOLS[part] ?? part : part === 'Mod' ? 'Ctrl' : part))
+    .join(isMac ? '' : '+');
+
+const NON_TEXT_INPUTS = ['button', 'checkbox', 'color', 'file', 'radio', 'range', 'reset', 'submit'];
+
+// Single keys would swallow typing, so they are ignored while a text field has focus.
+export const isEditableTarget = (target: EventTarget | null): boolean =>
+  (target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(target.type)) ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
@@ -0,0 +1,11 @@
+const VARIABLE_PATTERN = /\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+
+/** Unique variable names in order of first appearance. */
+export const extractVariables = (template: string): string[] =>
+  [...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]))];
+
+/** Replaces known variables; unknown or empty ones are left as `{name}`. */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+export const formatVariableName = (name: string): string => name.replace(/_/g, ' ');